@@ -0,0 +1,154 @@
+/**
+ * Build-time asset check, run automatically before every build.
+ *
+ * Fails when a file listed in src/Assets/AssetRegistry.ts is missing, or when a config references a texture that is not
+ * registered. Configs are the `texture: '...'` properties in the TypeScript sources plus any JSON solar system
+ * definitions passed as arguments:
+ *
+ *     node scripts/check-assets.js [definition.json ...]
+ */
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const rootDir = path.resolve(__dirname, '..');
+const srcDir = path.join(rootDir, 'src');
+const registryPath = path.join(srcDir, 'Assets', 'AssetRegistry.ts');
+
+const errors = [];
+
+const relative = file => path.relative(rootDir, file);
+
+function parseSource(file) {
+	return ts.createSourceFile(file, fs.readFileSync(file, 'utf8'), ts.ScriptTarget.Latest, true);
+}
+
+function visit(node, callback) {
+	callback(node);
+	ts.forEachChild(node, child => visit(child, callback));
+}
+
+function describePosition(sourceFile, node) {
+	const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+	return `${relative(sourceFile.fileName)}:${line + 1}:${character + 1}`;
+}
+
+/**
+ * Reads the keys of `bundledAssets` and checks the file behind every `new URL(..., import.meta.url)`
+ */
+function readRegistry() {
+	const sourceFile = parseSource(registryPath);
+	const keys = new Set();
+	
+	visit(sourceFile, node => {
+		if (!ts.isVariableDeclaration(node) || node.name.getText() !== 'bundledAssets' || !node.initializer || !ts.isObjectLiteralExpression(node.initializer)) {
+			return;
+		}
+		
+		node.initializer.properties.forEach(property => {
+			const key = property.name.getText();
+			keys.add(key);
+			
+			let url;
+			visit(property, child => {
+				if (ts.isNewExpression(child) && child.expression.getText() === 'URL' && child.arguments && ts.isStringLiteral(child.arguments[0])) {
+					url = child.arguments[0].text;
+				}
+			});
+			
+			if (url === undefined) {
+				errors.push(`${describePosition(sourceFile, property)} asset "${key}" must be a literal new URL(..., import.meta.url)`);
+				return;
+			}
+			
+			// Strip transformer queries such as ?as=webp
+			const file = path.resolve(path.dirname(registryPath), url.split('?')[0]);
+			if (!fs.existsSync(file)) {
+				errors.push(`${describePosition(sourceFile, property)} asset "${key}" points at missing file ${relative(file)}`);
+			}
+		});
+	});
+	
+	if (keys.size === 0) {
+		errors.push(`${relative(registryPath)} does not define bundledAssets`);
+	}
+	
+	return keys;
+}
+
+function listSourceFiles(dir) {
+	return fs.readdirSync(dir, { withFileTypes: true }).reduce((files, entry) => {
+		const file = path.join(dir, entry.name);
+		
+		if (entry.isDirectory()) {
+			return files.concat(listSourceFiles(file));
+		}
+		
+		return /\.tsx?$/.test(entry.name) ? files.concat(file) : files;
+	}, []);
+}
+
+function checkSourceFile(file, registeredKeys) {
+	const sourceFile = parseSource(file);
+	
+	visit(sourceFile, node => {
+		if (ts.isPropertyAssignment(node) && node.name.getText() === 'texture' && ts.isStringLiteral(node.initializer)) {
+			const key = node.initializer.text;
+			
+			if (!registeredKeys.has(key)) {
+				errors.push(`${describePosition(sourceFile, node)} texture "${key}" is not a registered asset`);
+			}
+		}
+	});
+}
+
+function checkDefinitionFile(file, registeredKeys) {
+	let definition;
+	
+	try {
+		definition = JSON.parse(fs.readFileSync(file, 'utf8'));
+	}
+	catch (e) {
+		errors.push(`${relative(file)} cannot be read: ${e.message}`);
+		return;
+	}
+	
+	const ownTextures = definition.textures || {};
+	
+	Object.keys(ownTextures).forEach(key => {
+		if (/^[a-z][a-z0-9+.-]*:/i.test(ownTextures[key])) {
+			errors.push(`${relative(file)} texture "${key}" must be a relative URL, remote assets are not allowed`);
+		}
+	});
+	
+	const visitValue = (value, jsonPath) => {
+		if (Array.isArray(value)) {
+			value.forEach((item, i) => visitValue(item, `${jsonPath}[${i}]`));
+		}
+		else if (typeof value === 'object' && value !== null) {
+			Object.keys(value).forEach(key => {
+				if (key === 'texture' && typeof value[key] === 'string' && !registeredKeys.has(value[key]) && !(value[key] in ownTextures)) {
+					errors.push(`${relative(file)} ${jsonPath}.texture "${value[key]}" is neither a registered asset nor listed in its textures`);
+				}
+				visitValue(value[key], `${jsonPath}.${key}`);
+			});
+		}
+	};
+	
+	visitValue(definition.bodies, '$.bodies');
+}
+
+const registeredKeys = readRegistry();
+
+listSourceFiles(srcDir)
+	.filter(file => file !== registryPath)
+	.forEach(file => checkSourceFile(file, registeredKeys));
+
+process.argv.slice(2).forEach(file => checkDefinitionFile(path.resolve(file), registeredKeys));
+
+if (errors.length > 0) {
+	console.error(`Asset check failed:\n${errors.map(error => `  ${error}`).join('\n')}`);
+	process.exit(1);
+}
+
+console.log(`Asset check passed (${registeredKeys.size} registered assets)`);
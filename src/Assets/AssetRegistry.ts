@@ -0,0 +1,45 @@
+/**
+ * Every asset bundled with the app, keyed by the name configs refer to them by.
+ *
+ * Each URL must be a literal `new URL(..., import.meta.url)` so Parcel bundles (and converts) the file. Nothing is
+ * fetched from third party hosts, so the app also works offline and behind proxies. `scripts/check-assets.js` runs
+ * before every build and fails if a file is missing or a config references a key that is not listed here.
+ */
+export const bundledAssets = {
+	sun: (new URL('../../assets/pexels-photo-2832382.jpeg?as=webp', import.meta.url)).pathname,
+	// Textures grabbed from https://sites.google.com/site/mapsandsuch/maps-of-fictional-worlds and modified as needed
+	// Other ways to generate online are listed here https://blender.stackexchange.com/questions/31424/planet-texture-generator
+	ertaale_albedo_blue: (new URL('../../assets/generated_planets/planet2_ertaale/ertaale_ast_2006036_lrg_blue.jpg?as=webp', import.meta.url)).pathname,
+	ertaale_bump_low: (new URL('../../assets/generated_planets/planet2_ertaale/NormalMap-Low.png?as=webp', import.meta.url)).pathname,
+	ertaale_albedo_red: (new URL('../../assets/generated_planets/planet2_ertaale/ertaale_ast_2006036_lrg.jpg?as=webp', import.meta.url)).pathname,
+	ertaale_bump: (new URL('../../assets/generated_planets/planet2_ertaale/NormalMap.png?as=webp', import.meta.url)).pathname,
+	dgnyre_albedo: (new URL('../../assets/generated_planets/planet3_dgnyre/dgnyre.jpg?as=webp', import.meta.url)).pathname,
+	dgnyre_bump: (new URL('../../assets/generated_planets/planet3_dgnyre/NormalMap.png?as=webp', import.meta.url)).pathname,
+	dgnyre_clouds: (new URL('../../assets/generated_planets/planet3_dgnyre/dgnyre-clouds.png?as=webp', import.meta.url)).pathname,
+	iceworld_albedo: (new URL('../../assets/generated_planets/planet4_stan/iceworld2.jpg?as=webp', import.meta.url)).pathname,
+	iceworld_bump: (new URL('../../assets/generated_planets/planet4_stan/NormalMap.png?as=webp', import.meta.url)).pathname,
+	toxic_clouds: (new URL('../../assets/generated_planets/planet1_toxic/clouds.png', import.meta.url)).pathname,
+	particle_flare: (new URL('../../assets/particles/flare.png', import.meta.url)).pathname,
+};
+
+export type BundledAssetKey = keyof typeof bundledAssets;
+
+export function isBundledAssetKey(key: string): key is BundledAssetKey {
+	return Object.prototype.hasOwnProperty.call(bundledAssets, key);
+}
+
+/**
+ * Resolves a texture key to a URL. Keys listed in the definition's own `textures` take precedence so systems loaded
+ * from JSON can ship their own files, anything else must be a bundled asset.
+ */
+export function resolveTextureUrl(textures: undefined | Record<string, string>, key: string): string {
+	if (textures && Object.prototype.hasOwnProperty.call(textures, key)) {
+		return textures[key];
+	}
+	
+	if (isBundledAssetKey(key)) {
+		return bundledAssets[key];
+	}
+	
+	throw new Error(`Unknown texture "${key}"`);
+}
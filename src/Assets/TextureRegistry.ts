@@ -0,0 +1,148 @@
+import { BaseTexture, Texture } from "@babylonjs/core";
+
+import { BundledAssetKey } from './AssetRegistry';
+import type { TextureReference } from '../SolarSystem/Definition';
+
+export interface TextureAcquireOptions {
+	/** Brightness override. The shared texture is left untouched, a copy sharing its GPU data is returned instead. */
+	level?: number;
+	/**
+	 * Return a copy sharing the GPU data rather than the shared texture itself, for callers that change sampler
+	 * settings such as `wrapU` or `hasAlpha`
+	 */
+	copy?: boolean;
+}
+
+interface TextureRegistryEntry {
+	texture: Texture;
+	/** Number of acquired references, including copies */
+	refCount: number;
+}
+
+/**
+ * Owns every preloaded texture, keyed by the name of the asset task that loaded it (`sun`, `dgnyre_albedo`, ...), so
+ * each image is decoded and uploaded exactly once.
+ *
+ * Consumers `acquire` a texture and `release` it again when done. Once the last reference of a key is released its
+ * texture is disposed. Never dispose acquired textures directly (e.g. through `material.dispose(false, true)`), release
+ * them instead.
+ */
+export class TextureRegistry {
+	
+	private entries = new Map<string, TextureRegistryEntry>();
+	/** Copies handed out, mapped to the key they were made from */
+	private copies = new Map<BaseTexture, string>();
+	
+	/**
+	 * Takes ownership of a texture that finished loading, e.g. the result of a `TextureAssetTask`
+	 */
+	add(key: string, texture: Texture) {
+		if (this.entries.has(key)) {
+			throw new Error(`Texture "${key}" is already registered`);
+		}
+		
+		this.entries.set(key, { texture, refCount: 0 });
+	}
+	
+	/**
+	 * False for textures that failed to load or were never preloaded
+	 */
+	has(key: string) {
+		return this.entries.has(key);
+	}
+	
+	/**
+	 * Acquires a bundled texture, e.g. `particle_flare`. Returns null if it failed to load.
+	 */
+	acquire(key: BundledAssetKey, options?: TextureAcquireOptions): null | Texture {
+		return this.acquireKey(key, options);
+	}
+	
+	/**
+	 * Acquires the texture a solar system definition refers to, applying the reference's level unless overridden. Returns
+	 * null if it failed to load, in which case callers fall back to a flat colour or leave the feature out.
+	 */
+	acquireReference(reference: TextureReference, options?: TextureAcquireOptions): null | Texture {
+		return this.acquireKey(reference.texture, { level: reference.level, ...options });
+	}
+	
+	/**
+	 * Releases a texture returned by `acquire` or `acquireReference`. Null is ignored so results can be passed on as is.
+	 */
+	release(texture: null | BaseTexture) {
+		if (!texture) {
+			return;
+		}
+		
+		const copyKey = this.copies.get(texture);
+		
+		if (copyKey !== undefined) {
+			this.copies.delete(texture);
+			texture.dispose();
+			this.releaseKey(copyKey);
+			return;
+		}
+		
+		this.entries.forEach((entry, key) => entry.texture === texture && this.releaseKey(key));
+	}
+	
+	getRefCount(key: string) {
+		return this.entries.get(key)?.refCount ?? 0;
+	}
+	
+	get keys() {
+		return Array.from(this.entries.keys());
+	}
+	
+	/**
+	 * Disposes all textures, whether or not they are still referenced
+	 */
+	dispose() {
+		this.copies.forEach((_key, copy) => copy.dispose());
+		this.copies.clear();
+		this.entries.forEach(entry => entry.texture.dispose());
+		this.entries.clear();
+	}
+	
+	private acquireKey(key: string, options: TextureAcquireOptions = {}): null | Texture {
+		const entry = this.entries.get(key);
+		
+		if (!entry) {
+			return null;
+		}
+		
+		entry.refCount++;
+		
+		const { level } = options;
+		
+		if (!options.copy && (level === undefined || level === entry.texture.level)) {
+			return entry.texture;
+		}
+		
+		// Clones load through the engine's texture cache and therefore share the already uploaded GPU texture
+		const copy = entry.texture.clone();
+		
+		if (level !== undefined) {
+			copy.level = level;
+		}
+		
+		this.copies.set(copy, key);
+		return copy;
+	}
+	
+	private releaseKey(key: string) {
+		const entry = this.entries.get(key);
+		
+		if (!entry || entry.refCount === 0) {
+			return;
+		}
+		
+		entry.refCount--;
+		
+		if (entry.refCount === 0) {
+			entry.texture.dispose();
+			this.entries.delete(key);
+		}
+	}
+	
+}
@@ -0,0 +1,120 @@
+import { Nullable, Observable, Observer } from "@babylonjs/core";
+
+import type { GraphicsPreset, GraphicsSettings } from './GraphicsSettings';
+import type { GalaxyStarSystem } from './Procedural/Galaxy';
+import type { PlanetMeta } from './Renderer';
+import type { SolarSystemDefinition } from './SolarSystem/Definition';
+
+export interface AssetsLoadedEvent {
+	definition: SolarSystemDefinition;
+	loadedTaskNames: string[];
+	failedTaskNames: string[];
+}
+
+export interface BodyFocusedEvent {
+	body: PlanetMeta;
+	previous: null | PlanetMeta;
+}
+
+export interface FocusAnimationFinishedEvent {
+	body: PlanetMeta;
+	/** False when the flight was cancelled before the camera arrived */
+	completed: boolean;
+}
+
+export interface GalaxyModeEvent {
+	/** Scale of the solar system at the time of the transition */
+	scale: number;
+}
+
+export interface OptimizerLevelChangedEvent {
+	/** Number of optimization steps applied now, 0 is full quality and higher levels degrade it further */
+	level: number;
+	/** Name of the step that was just applied or reverted */
+	step: string;
+	description: string;
+	direction: 'degrade' | 'upgrade';
+	/** Frame rate that caused the change */
+	fps: number;
+}
+
+export interface StarSystemSelectedEvent {
+	system: GalaxyStarSystem;
+	/** Bodies of the selected system, ready to be handed to a new `Renderer` */
+	definition: SolarSystemDefinition;
+}
+
+export interface GraphicsSettingsChangedEvent {
+	settings: GraphicsSettings;
+	/** Null when the settings do not match a preset */
+	preset: null | GraphicsPreset;
+}
+
+export interface ExplorePipToggledEvent {
+	visible: boolean;
+}
+
+/**
+ * Every event the renderer emits, keyed by name, with its payload type
+ */
+export interface RendererEventMap {
+	assetsLoaded: AssetsLoadedEvent;
+	sceneReady: {};
+	bodyFocused: BodyFocusedEvent;
+	focusAnimationFinished: FocusAnimationFinishedEvent;
+	galaxyModeEntered: GalaxyModeEvent;
+	galaxyModeExited: GalaxyModeEvent;
+	optimizerLevelChanged: OptimizerLevelChangedEvent;
+	explorePipToggled: ExplorePipToggledEvent;
+	starSystemSelected: StarSystemSelectedEvent;
+	graphicsSettingsChanged: GraphicsSettingsChangedEvent;
+}
+
+export type RendererEventType = keyof RendererEventMap;
+
+type RendererEventObservables = { [K in RendererEventType]?: Observable<RendererEventMap[K]> };
+
+/**
+ * Typed event bus backed by one Babylon `Observable` per event, so subscribers can use the usual observer features
+ * (`addOnce`, removal by observer) through `observable()`
+ */
+export class RendererEvents {
+	
+	private observables: RendererEventObservables = {};
+	
+	observable<K extends RendererEventType>(type: K): Observable<RendererEventMap[K]> {
+		const existing = this.observables[type] as undefined | Observable<RendererEventMap[K]>;
+		
+		if (existing) {
+			return existing;
+		}
+		
+		const observable = new Observable<RendererEventMap[K]>();
+		(this.observables as Record<K, Observable<RendererEventMap[K]>>)[type] = observable;
+		return observable;
+	}
+	
+	on<K extends RendererEventType>(type: K, callback: (payload: RendererEventMap[K]) => void): Nullable<Observer<RendererEventMap[K]>> {
+		return this.observable(type).add(callback);
+	}
+	
+	once<K extends RendererEventType>(type: K, callback: (payload: RendererEventMap[K]) => void): Nullable<Observer<RendererEventMap[K]>> {
+		return this.observable(type).addOnce(callback);
+	}
+	
+	off<K extends RendererEventType>(type: K, observer: Nullable<Observer<RendererEventMap[K]>>) {
+		return this.observable(type).remove(observer);
+	}
+	
+	emit<K extends RendererEventType>(type: K, payload: RendererEventMap[K]) {
+		(this.observables[type] as undefined | Observable<RendererEventMap[K]>)?.notifyObservers(payload);
+	}
+	
+	/**
+	 * Removes all subscribers of all events
+	 */
+	clear() {
+		(Object.keys(this.observables) as RendererEventType[]).forEach(type => this.observables[type]?.clear());
+	}
+	
+}
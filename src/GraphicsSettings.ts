@@ -0,0 +1,149 @@
+import { clamp } from './Utils/Math';
+
+export type GraphicsPreset = 'low' | 'medium' | 'high' | 'ultra';
+
+/**
+ * Quality knobs that can be changed while the scene is running
+ */
+export interface GraphicsSettings {
+	/** Volumetric light scattering from the star */
+	godRays: boolean;
+	/** Samples per pixel of the god rays. Powerful GPUs can handle 200, high end mobile about 20. */
+	godRaySampleSize: number;
+	bloom: boolean;
+	chromaticAberration: boolean;
+	/** Anti aliasing */
+	fxaa: boolean;
+	glow: boolean;
+	/** Pixels per rendered pixel on top of the device pixel ratio, 1 renders at native resolution and 2 at half of it */
+	resolutionScale: number;
+}
+
+export const graphicsPresetNames: GraphicsPreset[] = ['low', 'medium', 'high', 'ultra'];
+
+export const graphicsPresets: Record<GraphicsPreset, GraphicsSettings> = {
+	low: {
+		godRays: false,
+		godRaySampleSize: 20,
+		bloom: false,
+		chromaticAberration: false,
+		fxaa: false,
+		glow: false,
+		resolutionScale: 2,
+	},
+	medium: {
+		godRays: false,
+		godRaySampleSize: 50,
+		bloom: true,
+		chromaticAberration: false,
+		fxaa: true,
+		glow: false,
+		resolutionScale: 1.5,
+	},
+	high: {
+		godRays: true,
+		godRaySampleSize: 100,
+		bloom: true,
+		chromaticAberration: true,
+		fxaa: true,
+		glow: true,
+		resolutionScale: 1,
+	},
+	ultra: {
+		godRays: true,
+		godRaySampleSize: 200,
+		bloom: true,
+		chromaticAberration: true,
+		fxaa: true,
+		glow: true,
+		resolutionScale: 1,
+	},
+};
+
+export const defaultGraphicsPreset: GraphicsPreset = 'ultra';
+
+const storageKey = 'babylonjs-5-galaxy:graphicsSettings';
+const lockedStorageKey = 'babylonjs-5-galaxy:lockedGraphicsSettings';
+
+/**
+ * The preset the settings are equal to, null when they have been customized
+ */
+export function getGraphicsPreset(settings: GraphicsSettings): null | GraphicsPreset {
+	const keys = Object.keys(settings) as (keyof GraphicsSettings)[];
+	return graphicsPresetNames.filter(preset => keys.every(key => graphicsPresets[preset][key] === settings[key]))[0] ?? null;
+}
+
+/**
+ * Reads the settings saved by `saveGraphicsSettings`. Missing or malformed values fall back to the default preset, so
+ * settings saved by older versions keep working.
+ */
+export function loadGraphicsSettings(): GraphicsSettings {
+	
+	const settings = { ...graphicsPresets[defaultGraphicsPreset] };
+	let stored: unknown = null;
+	
+	try {
+		stored = JSON.parse(window.localStorage.getItem(storageKey) ?? 'null');
+	}
+	catch (e) {
+		// Storage can be unavailable (e.g. disabled cookies) or hold garbage, either way the defaults apply
+		console.warn('Unable to read graphics settings', e);
+	}
+	
+	if (typeof stored !== 'object' || stored === null) {
+		return settings;
+	}
+	
+	const obj = stored as Record<string, unknown>;
+	(Object.keys(settings) as (keyof GraphicsSettings)[]).forEach(key => {
+		if (typeof obj[key] === typeof settings[key]) {
+			(settings as Record<keyof GraphicsSettings, unknown>)[key] = obj[key];
+		}
+	});
+	
+	// Guard against values that would make the scene unusable
+	settings.godRaySampleSize = clamp(Math.round(settings.godRaySampleSize), 1, 500);
+	settings.resolutionScale = clamp(settings.resolutionScale, 0.5, 4);
+	
+	return settings;
+}
+
+export function saveGraphicsSettings(settings: GraphicsSettings) {
+	try {
+		window.localStorage.setItem(storageKey, JSON.stringify(settings));
+	}
+	catch (e) {
+		console.warn('Unable to save graphics settings', e);
+	}
+}
+
+/**
+ * Reads the settings the user has set by hand, which the optimizer must leave alone
+ */
+export function loadLockedGraphicsSettings(): (keyof GraphicsSettings)[] {
+	
+	const keys = Object.keys(graphicsPresets[defaultGraphicsPreset]);
+	let stored: unknown = null;
+	
+	try {
+		stored = JSON.parse(window.localStorage.getItem(lockedStorageKey) ?? 'null');
+	}
+	catch (e) {
+		console.warn('Unable to read locked graphics settings', e);
+	}
+	
+	if (!Array.isArray(stored)) {
+		return [];
+	}
+	
+	return stored.filter(key => keys.indexOf(key) !== -1);
+}
+
+export function saveLockedGraphicsSettings(locked: (keyof GraphicsSettings)[]) {
+	try {
+		window.localStorage.setItem(lockedStorageKey, JSON.stringify(locked));
+	}
+	catch (e) {
+		console.warn('Unable to save locked graphics settings', e);
+	}
+}
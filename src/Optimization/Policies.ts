@@ -0,0 +1,56 @@
+import type { OptimizationStep } from './QualityOptimizer';
+
+/** Steps the `Renderer` implements, see `Renderer.createOptimizationSteps` */
+export type OptimizationStepName = 'reduceResolution' | 'halveResolution' | 'godRays' | 'bloom' | 'antiAliasing' | 'renderTargets' | 'textures';
+
+export interface OptimizationPolicy {
+	/** Quality is lowered while the frame rate stays below this */
+	targetFps: number;
+	/** Quality is raised again while the frame rate stays at or above this. Omit to never raise it. */
+	upgradeFps?: number;
+	/** Time the scene has to run before the first measurement, so loading hiccups do not count */
+	startDelayMs: number;
+	/** Length of one frame rate measurement */
+	sampleDurationMs: number;
+	/** Time to spend at a level before raising quality again, doubled every time an upgrade has to be undone */
+	upgradeDelayMs: number;
+	/** Applied in this order, reverted in reverse. Either one of the renderer's steps or a custom one. */
+	steps: (OptimizationStepName | OptimizationStep)[];
+	/** Logs every level change to the console */
+	verboseLogging: boolean;
+}
+
+export type OptimizationPolicyName = 'default' | 'kiosk' | 'workstation';
+
+export const optimizationPolicies: Record<OptimizationPolicyName, OptimizationPolicy> = {
+	default: {
+		targetFps: 50,
+		// A 60 Hz display measures a little below 60 FPS
+		upgradeFps: 56,
+		startDelayMs: 1500,
+		sampleDurationMs: 1000,
+		upgradeDelayMs: 10000,
+		steps: ['reduceResolution', 'halveResolution', 'godRays', 'bloom', 'antiAliasing', 'renderTargets', 'textures'],
+		verboseLogging: false,
+	},
+	// Low-end hardware running unattended: settles for a lower frame rate, gives up effects before resolution as the
+	// screen is looked at from a distance, and never raises quality again so the picture does not change mid-tour
+	kiosk: {
+		targetFps: 30,
+		startDelayMs: 3000,
+		sampleDurationMs: 2000,
+		upgradeDelayMs: 0,
+		steps: ['godRays', 'bloom', 'antiAliasing', 'reduceResolution', 'renderTargets', 'textures', 'halveResolution'],
+		verboseLogging: false,
+	},
+	// Fast GPUs: only drops the most expensive effects for short dips and recovers quickly, resolution is kept
+	workstation: {
+		targetFps: 50,
+		upgradeFps: 56,
+		startDelayMs: 1500,
+		sampleDurationMs: 1000,
+		upgradeDelayMs: 5000,
+		steps: ['godRays', 'bloom'],
+		verboseLogging: false,
+	},
+};
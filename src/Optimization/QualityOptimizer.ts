@@ -0,0 +1,204 @@
+import { Observable } from "@babylonjs/core";
+
+import type { GraphicsSettings } from '../GraphicsSettings';
+import type { OptimizationPolicy } from './Policies';
+
+/**
+ * One way of trading quality for frame rate
+ */
+export interface OptimizationStep {
+	/** Identifies the step in policies and events */
+	name: string;
+	/** Shown in logs and events */
+	description: string;
+	/** The step is skipped while the user has set any of these graphics settings by hand */
+	lockedBy?: (keyof GraphicsSettings)[];
+	/** Lowers quality. Returns false when there was nothing to lower (e.g. god rays were already off), so the next step is tried right away. */
+	apply(): boolean;
+	/** Restores what `apply` changed. Steps without it are permanent and the optimizer never upgrades past them. */
+	revert?(): void;
+}
+
+export interface QualityLevelChange {
+	/** Number of steps applied now, 0 is full quality */
+	level: number;
+	step: OptimizationStep;
+	direction: 'degrade' | 'upgrade';
+	/** Frame rate measured before the change */
+	fps: number;
+}
+
+/** Longest time the optimizer waits before trying an upgrade again, however often upgrades failed */
+const maxUpgradeBackoff = 8;
+
+/**
+ * Keeps the frame rate within a policy's bounds by applying its steps one at a time while frames are too slow, and
+ * reverting them again in reverse order while there is headroom. An upgrade that immediately has to be undone makes the
+ * optimizer wait twice as long before trying again, so it settles instead of flickering between two levels.
+ */
+export class QualityOptimizer {
+	
+	/** Fires whenever a step is applied or reverted */
+	onLevelChangedObservable = new Observable<QualityLevelChange>();
+	
+	/** Steps applied so far, in order */
+	appliedSteps: OptimizationStep[] = [];
+	
+	/** Graphics settings the user has set by hand, steps locked by them are skipped */
+	lockedSettings: (keyof GraphicsSettings)[];
+	
+	/** Index of the next step to try when degrading */
+	private position: number = 0;
+	private elapsedMs: number = 0;
+	private sampleMs: number = 0;
+	private sampleFrames: number = 0;
+	private msAtLevel: number = 0;
+	/** The sample after a change includes its cost (e.g. shader compilation) and is discarded */
+	private settling: boolean = false;
+	/** Set by an upgrade until the first sample at the new level has been measured */
+	private upgradeOnTrial: boolean = false;
+	private upgradeBackoff: number = 1;
+	private exhausted: boolean = false;
+	
+	constructor(public policy: OptimizationPolicy, public steps: OptimizationStep[], lockedSettings: (keyof GraphicsSettings)[] = []) {
+		this.lockedSettings = lockedSettings;
+	}
+	
+	get level() {
+		return this.appliedSteps.length;
+	}
+	
+	/**
+	 * Measures the frame rate, call once per frame. `delta` is the frame's duration in milliseconds, frames with a delta
+	 * of 0 (e.g. after resuming) are ignored.
+	 */
+	update(delta: number) {
+		
+		if (delta <= 0) {
+			return;
+		}
+		
+		this.elapsedMs += delta;
+		
+		if (this.elapsedMs < this.policy.startDelayMs) {
+			return;
+		}
+		
+		this.msAtLevel += delta;
+		this.sampleMs += delta;
+		this.sampleFrames++;
+		
+		if (this.sampleMs < this.policy.sampleDurationMs) {
+			return;
+		}
+		
+		const fps = (this.sampleFrames * 1000) / this.sampleMs;
+		this.sampleMs = 0;
+		this.sampleFrames = 0;
+		
+		if (this.settling) {
+			this.settling = false;
+			return;
+		}
+		
+		const { targetFps, upgradeFps, upgradeDelayMs } = this.policy;
+		const upgradeOnTrial = this.upgradeOnTrial;
+		this.upgradeOnTrial = false;
+		
+		if (fps < targetFps) {
+			if (upgradeOnTrial) {
+				this.upgradeBackoff = Math.min(this.upgradeBackoff * 2, maxUpgradeBackoff);
+			}
+			
+			this.degrade(fps);
+		}
+		else if (upgradeFps !== undefined && fps >= upgradeFps && this.msAtLevel >= upgradeDelayMs * this.upgradeBackoff) {
+			this.upgrade(fps);
+		}
+		
+	}
+	
+	/**
+	 * Applies the next step that is not locked and has something to lower. Returns false when there is none left.
+	 */
+	degrade(fps: number = 0): boolean {
+		
+		while (this.position < this.steps.length) {
+			const step = this.steps[this.position++];
+			
+			if (this.isLocked(step) || !step.apply()) {
+				continue;
+			}
+			
+			this.appliedSteps.push(step);
+			this.changed(step, 'degrade', fps);
+			return true;
+		}
+		
+		if (!this.exhausted) {
+			this.exhausted = true;
+			this.policy.verboseLogging && console.log('Optimization: Did not reach FPS target');
+		}
+		
+		return false;
+	}
+	
+	/**
+	 * Reverts the last applied step. Returns false when nothing is applied or the last step is permanent.
+	 */
+	upgrade(fps: number = 0): boolean {
+		
+		const step = this.appliedSteps[this.appliedSteps.length - 1];
+		
+		if (!step || !step.revert) {
+			return false;
+		}
+		
+		step.revert();
+		this.appliedSteps.pop();
+		this.position = this.steps.indexOf(step);
+		this.exhausted = false;
+		this.changed(step, 'upgrade', fps);
+		return true;
+		
+	}
+	
+	/**
+	 * Reverts all steps that can be reverted and starts measuring from scratch, e.g. after the graphics settings changed
+	 */
+	reset() {
+		
+		while (this.upgrade()) {
+			// Reverting one at a time keeps the events in order
+		}
+		
+		this.elapsedMs = 0;
+		this.sampleMs = 0;
+		this.sampleFrames = 0;
+		this.msAtLevel = 0;
+		this.settling = false;
+		this.upgradeOnTrial = false;
+		this.upgradeBackoff = 1;
+		
+	}
+	
+	dispose() {
+		this.onLevelChangedObservable.clear();
+	}
+	
+	private isLocked(step: OptimizationStep) {
+		return (step.lockedBy ?? []).some(setting => this.lockedSettings.indexOf(setting) !== -1);
+	}
+	
+	private changed(step: OptimizationStep, direction: QualityLevelChange['direction'], fps: number) {
+		
+		this.msAtLevel = 0;
+		this.settling = true;
+		this.upgradeOnTrial = direction === 'upgrade';
+		
+		this.policy.verboseLogging && console.log(`Optimization: ${direction === 'degrade' ? 'Applied' : 'Reverted'} "${step.description}" at ${fps.toFixed(1)} FPS, now at level ${this.level}`);
+		this.onLevelChangedObservable.notifyObservers({ level: this.level, step, direction, fps });
+		
+	}
+	
+}
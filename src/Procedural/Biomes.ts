@@ -0,0 +1,81 @@
+export type ProceduralBiome = 'terran' | 'desert' | 'ice' | 'lava' | 'toxic';
+
+/** Colour at a normalized surface height, 0 being the deepest point and 1 the highest */
+export interface ColorStop {
+	height: number;
+	/** Hex colour, e.g. `#3366FF` */
+	color: string;
+}
+
+export interface BiomePreset {
+	/** Stops sorted by height */
+	colorRamp: ColorStop[];
+	/** Heights below this are liquid, which is smooth and flat. 0 disables liquids. */
+	seaLevel: number;
+	/** Latitude (0 at the equator, 1 at the poles) above which ice caps form. 1 disables them. */
+	polarIce: number;
+}
+
+export const proceduralBiomes: ProceduralBiome[] = ['terran', 'desert', 'ice', 'lava', 'toxic'];
+
+export const biomePresets: Record<ProceduralBiome, BiomePreset> = {
+	terran: {
+		seaLevel: 0.52,
+		polarIce: 0.82,
+		colorRamp: [
+			{ height: 0, color: '#0B1E4A' },
+			{ height: 0.45, color: '#1B4F8C' },
+			{ height: 0.52, color: '#2E7DB5' },
+			{ height: 0.53, color: '#D8C690' },
+			{ height: 0.56, color: '#4E8A3A' },
+			{ height: 0.7, color: '#35602A' },
+			{ height: 0.8, color: '#6B5B45' },
+			{ height: 0.9, color: '#9A9088' },
+			{ height: 1, color: '#FFFFFF' },
+		],
+	},
+	desert: {
+		seaLevel: 0,
+		polarIce: 1,
+		colorRamp: [
+			{ height: 0, color: '#6B3A1E' },
+			{ height: 0.4, color: '#A0582A' },
+			{ height: 0.6, color: '#C98A4B' },
+			{ height: 0.8, color: '#E0B77A' },
+			{ height: 1, color: '#F3DDB0' },
+		],
+	},
+	ice: {
+		seaLevel: 0.4,
+		polarIce: 0.5,
+		colorRamp: [
+			{ height: 0, color: '#1C3F5E' },
+			{ height: 0.4, color: '#3F6E8F' },
+			{ height: 0.41, color: '#BFD6E6' },
+			{ height: 0.7, color: '#E4EEF5' },
+			{ height: 1, color: '#FFFFFF' },
+		],
+	},
+	lava: {
+		seaLevel: 0.45,
+		polarIce: 1,
+		colorRamp: [
+			{ height: 0, color: '#FF5A0A' },
+			{ height: 0.44, color: '#C22A05' },
+			{ height: 0.46, color: '#2A1A16' },
+			{ height: 0.7, color: '#3C2C26' },
+			{ height: 1, color: '#5A4A42' },
+		],
+	},
+	toxic: {
+		seaLevel: 0.5,
+		polarIce: 1,
+		colorRamp: [
+			{ height: 0, color: '#2F4F0F' },
+			{ height: 0.5, color: '#7FAF1F' },
+			{ height: 0.51, color: '#5B5330' },
+			{ height: 0.8, color: '#7E7445' },
+			{ height: 1, color: '#B7B07A' },
+		],
+	},
+};
@@ -0,0 +1,37 @@
+import { defaultSolarSystemDefinition } from '../SolarSystem/DefaultSystem';
+import { SolarSystemDefinition } from '../SolarSystem/Definition';
+import { Galaxy, GalaxyOptions, generateGalaxy } from './Galaxy';
+import { generateStarSystemDefinition } from './StarSystem';
+
+/** The galaxy surrounding the default solar system */
+export const defaultGalaxyOptions: GalaxyOptions = {
+	seed: 1701,
+	homeSystemName: 'Sun',
+};
+
+let defaultGalaxy: null | Galaxy = null;
+
+/**
+ * Generates the default galaxy on first use
+ */
+export function getDefaultGalaxy(): Galaxy {
+	if (!defaultGalaxy) {
+		defaultGalaxy = generateGalaxy(defaultGalaxyOptions);
+	}
+	
+	return defaultGalaxy;
+}
+
+/**
+ * Definition of a star system of the default galaxy. System 0 is the built in default solar system, all others are
+ * generated.
+ */
+export function getStarSystemDefinition(id: number): SolarSystemDefinition {
+	const system = getDefaultGalaxy().systems[id];
+	
+	if (!system) {
+		throw new Error(`Unknown star system ${id}`);
+	}
+	
+	return id === 0 ? defaultSolarSystemDefinition : generateStarSystemDefinition(system);
+}
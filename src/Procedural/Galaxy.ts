@@ -0,0 +1,179 @@
+/**
+ * Procedural spiral galaxies.
+ *
+ * Like the planet generator this is plain math without any Babylon.js dependency, the same options always produce the
+ * same galaxy. Positions are in scene units with the galactic core at the origin and the disc in the XZ plane.
+ */
+
+import { Vector3Tuple } from '../SolarSystem/Definition';
+import { clamp } from '../Utils/Math';
+import { createSeededRandom, randomRange } from '../Utils/Random';
+
+export interface GalaxyOptions {
+	seed: number;
+	/** Background stars, defaults to 12000 */
+	starCount?: number;
+	/** Star systems that can be visited, including the home system. Defaults to 60. */
+	systemCount?: number;
+	/** Defaults to 4 */
+	armCount?: number;
+	/** Radius of the disc in scene units, defaults to 2000 */
+	radius?: number;
+	/** Turns each arm makes from the core to the rim, defaults to 0.6 */
+	armTwist?: number;
+	/** Radius of the core bulge as a fraction of the disc radius, defaults to 0.15 */
+	coreRadius?: number;
+	/** Name of system 0, the one shown by default */
+	homeSystemName?: string;
+}
+
+/** Background stars as flat arrays, ready to be turned into instance buffers */
+export interface GalaxyStars {
+	count: number;
+	/** xyz per star */
+	positions: Float32Array;
+	/** rgba per star */
+	colors: Float32Array;
+	/** Diameter per star */
+	sizes: Float32Array;
+}
+
+export interface GalaxyStarSystem {
+	/** Index within `Galaxy.systems`, stable for a given seed. 0 is the home system. */
+	id: number;
+	name: string;
+	/** Seed the system's bodies are generated from */
+	seed: number;
+	position: Vector3Tuple;
+	/** Surface temperature of the star in Kelvin */
+	temperature: number;
+	/** Hex colour of the star's light */
+	color: string;
+	planetCount: number;
+}
+
+export interface Galaxy {
+	stars: GalaxyStars;
+	systems: GalaxyStarSystem[];
+}
+
+const nameSyllables = ['ka', 'lo', 've', 'ri', 'tan', 'xo', 'mer', 'ul', 'zen', 'dra', 'qui', 'sor', 'bel', 'nox', 'ith', 'ar', 'po', 'lys', 'eth', 'vor'];
+
+/** Systems placed close to the home system so some are always within reach of the galaxy view */
+const nearbySystemCount = 12;
+const nearbySystemDistance = { min: 80, max: 600 };
+
+/**
+ * Generates the stars and visitable star systems of a spiral galaxy
+ */
+export function generateGalaxy(options: GalaxyOptions): Galaxy {
+	
+	const random = createSeededRandom(options.seed);
+	const starCount = options.starCount ?? 12000;
+	const systemCount = Math.max(1, options.systemCount ?? 60);
+	const armCount = options.armCount ?? 4;
+	const radius = options.radius ?? 2000;
+	const armTwist = options.armTwist ?? 0.6;
+	const coreRadius = (options.coreRadius ?? 0.15) * radius;
+	
+	const gaussian = () => {
+		// Box-Muller transform
+		const u = Math.max(random(), 1e-9);
+		return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+	};
+	
+	/** Random point along one of the arms, spreading out and thinning towards the rim */
+	const sampleArmPosition = (distance: number): Vector3Tuple => {
+		const arm = Math.floor(random() * armCount);
+		const spread = 0.3 * (1 - (distance / radius) * 0.5);
+		const angle = (arm * 2 * Math.PI / armCount) + ((distance / radius) * armTwist * 2 * Math.PI) + (gaussian() * spread);
+		const thickness = (radius * 0.005) + (radius * 0.02 * (1 - distance / radius));
+		
+		return [Math.cos(angle) * distance, gaussian() * thickness, Math.sin(angle) * distance];
+	};
+	
+	const stars: GalaxyStars = {
+		count: starCount,
+		positions: new Float32Array(starCount * 3),
+		colors: new Float32Array(starCount * 4),
+		sizes: new Float32Array(starCount),
+	};
+	
+	for (let i = 0; i < starCount; i++) {
+		const inCore = random() < 0.25;
+		let position: Vector3Tuple;
+		let temperature: number;
+		
+		if (inCore) {
+			// The bulge holds older, cooler stars
+			position = [gaussian() * coreRadius * 0.5, gaussian() * coreRadius * 0.3, gaussian() * coreRadius * 0.5];
+			temperature = randomRange(random, 3000, 6000);
+		}
+		else {
+			position = sampleArmPosition(coreRadius + (Math.pow(random(), 0.8) * (radius - coreRadius)));
+			// Arms are dominated by cool stars with the occasional hot young one
+			temperature = random() < 0.1 ? randomRange(random, 10000, 25000) : randomRange(random, 3000, 9000);
+		}
+		
+		const [r, g, b] = temperatureToColor(temperature);
+		stars.positions.set(position, i * 3);
+		stars.colors.set([r, g, b, 1], i * 4);
+		stars.sizes[i] = randomRange(random, 1.5, 3) * (temperature > 10000 ? 1.5 : 1);
+	}
+	
+	const homePosition = sampleArmPosition(radius * 0.6);
+	const systems: GalaxyStarSystem[] = [];
+	
+	for (let id = 0; id < systemCount; id++) {
+		let position: Vector3Tuple;
+		
+		if (id === 0) {
+			position = homePosition;
+		}
+		else if (id <= nearbySystemCount) {
+			const distance = randomRange(random, nearbySystemDistance.min, nearbySystemDistance.max);
+			const angle = random() * 2 * Math.PI;
+			position = [homePosition[0] + Math.cos(angle) * distance, homePosition[1] + gaussian() * 15, homePosition[2] + Math.sin(angle) * distance];
+		}
+		else {
+			position = sampleArmPosition(coreRadius + (random() * (radius - coreRadius)));
+		}
+		
+		const temperature = randomRange(random, 3500, 12000);
+		
+		systems.push({
+			id,
+			name: id === 0 ? (options.homeSystemName ?? 'Home') : createName(random),
+			seed: Math.floor(random() * 0x7FFFFFFF),
+			position,
+			temperature: Math.round(temperature),
+			color: toHexColor(temperatureToColor(temperature)),
+			planetCount: 2 + Math.floor(random() * 5),
+		});
+	}
+	
+	return { stars, systems };
+}
+
+/**
+ * Approximate colour of a black body at the given temperature, as RGB in [0, 1]
+ */
+export function temperatureToColor(kelvin: number): [number, number, number] {
+	const t = kelvin / 100;
+	
+	const r = t <= 66 ? 255 : 329.698727446 * Math.pow(t - 60, -0.1332047592);
+	const g = t <= 66 ? (99.4708025861 * Math.log(t)) - 161.1195681661 : 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+	const b = t >= 66 ? 255 : (t <= 19 ? 0 : (138.5177312231 * Math.log(t - 10)) - 305.0447927307);
+	
+	return [clamp(r, 0, 255) / 255, clamp(g, 0, 255) / 255, clamp(b, 0, 255) / 255];
+}
+
+function toHexColor(color: [number, number, number]) {
+	return `#${color.map(c => `0${Math.round(c * 255).toString(16)}`.slice(-2)).join('').toUpperCase()}`;
+}
+
+function createName(random: () => number) {
+	const syllableCount = 2 + Math.floor(random() * 2);
+	const name = Array.from({ length: syllableCount }, () => nameSyllables[Math.floor(random() * nameSyllables.length)]).join('');
+	return name.charAt(0).toUpperCase() + name.slice(1);
+}
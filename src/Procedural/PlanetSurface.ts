@@ -0,0 +1,230 @@
+/**
+ * Procedural planet surfaces.
+ *
+ * Everything here is plain math on typed arrays without any Babylon.js dependency, so the same seed always produces
+ * byte-identical pixel data and results can be compared in headless tests. `ProceduralTextures.ts` turns the output
+ * into textures.
+ *
+ * Maps are equirectangular (longitude along the width, latitude along the height) to match the UVs of a Babylon.js
+ * sphere. Noise is sampled on the unit sphere so there are no seams or pinched poles.
+ */
+
+import { clamp } from '../Utils/Math';
+import { createNoise3D, fractalNoise } from '../Utils/Noise';
+import { biomePresets, ColorStop, ProceduralBiome } from './Biomes';
+
+export interface PlanetSurfaceOptions {
+	/** Same seed, same world */
+	seed: number;
+	/** Defaults to `terran` */
+	biome?: ProceduralBiome;
+	/** Overrides the colours of the biome */
+	colorRamp?: ColorStop[];
+	/** Overrides the sea level of the biome, 0 disables liquids */
+	seaLevel?: number;
+	/** Size of landmasses, higher values give more and smaller continents. Defaults to 1.2. */
+	featureScale?: number;
+	/** Strength of the derived normal map, defaults to 1 */
+	bumpStrength?: number;
+	/** Width of the generated maps in pixels, the height is half of it. Defaults to 512. */
+	resolution?: number;
+}
+
+export interface PlanetSurface {
+	width: number;
+	height: number;
+	/** Normalized surface height per pixel, rows from north to south */
+	heightMap: Float32Array;
+	/** RGBA colour */
+	albedo: Uint8Array;
+	/** RGBA tangent space normal map */
+	normal: Uint8Array;
+	/** RGBA with roughness in green and metalness in blue, the layout `PBRMaterial.metallicTexture` expects */
+	metallicRoughness: Uint8Array;
+}
+
+export interface CloudCoverOptions {
+	seed: number;
+	/** Fraction of the sky covered by clouds, defaults to 0.5 */
+	coverage?: number;
+	/** Width of the generated map in pixels, the height is half of it. Defaults to 512. */
+	resolution?: number;
+}
+
+export interface CloudCover {
+	width: number;
+	height: number;
+	/** RGBA with the cloud density in every channel, suitable as an opacity texture */
+	opacity: Uint8Array;
+}
+
+const defaultResolution = 512;
+
+const liquidRoughness = 0.25;
+const landRoughness = 0.85;
+const iceRoughness = 0.6;
+const iceColor: [number, number, number] = [0.91, 0.94, 0.97];
+
+/**
+ * Generates colour, normal and roughness maps for a planet
+ */
+export function generatePlanetSurface(options: PlanetSurfaceOptions): PlanetSurface {
+	
+	const preset = biomePresets[options.biome ?? 'terran'];
+	const ramp = parseColorRamp(options.colorRamp ?? preset.colorRamp);
+	const seaLevel = options.seaLevel ?? preset.seaLevel;
+	const featureScale = options.featureScale ?? 1.2;
+	const bumpStrength = options.bumpStrength ?? 1;
+	const { width, height } = getMapSize(options.resolution);
+	
+	// Independent noise fields derived from the one seed
+	const heightNoise = createNoise3D(options.seed);
+	const warpNoise = createNoise3D(options.seed + 1);
+	const detailNoise = createNoise3D(options.seed + 2);
+	
+	const heightMap = new Float32Array(width * height);
+	const albedo = new Uint8Array(width * height * 4);
+	const normal = new Uint8Array(width * height * 4);
+	const metallicRoughness = new Uint8Array(width * height * 4);
+	
+	forEachSpherePixel(width, height, (i, x, y, z) => {
+		// Warping the domain breaks up the blobby look of plain noise into more natural coastlines
+		const warp = fractalNoise(warpNoise, x * 2, y * 2, z * 2, { octaves: 3 }) * 0.35;
+		const value = fractalNoise(heightNoise, (x + warp) * featureScale, (y + warp) * featureScale, (z + warp) * featureScale, { octaves: 6 });
+		heightMap[i] = clamp(0.5 + (value * 0.8), 0, 1);
+	});
+	
+	forEachSpherePixel(width, height, (i, x, y, z, latitude) => {
+		const surfaceHeight = heightMap[i];
+		const isLiquid = surfaceHeight < seaLevel;
+		const detail = detailNoise(x * 24, y * 24, z * 24);
+		
+		let color = sampleColorRamp(ramp, surfaceHeight);
+		let roughness = isLiquid ? liquidRoughness : landRoughness;
+		
+		if (!isLiquid) {
+			const shade = 0.92 + (detail * 0.08);
+			color = [color[0] * shade, color[1] * shade, color[2] * shade];
+		}
+		
+		// Jitter the edge of the ice caps so they do not follow a perfect circle
+		if (Math.abs(latitude) > preset.polarIce + (detail * 0.04)) {
+			color = iceColor;
+			roughness = iceRoughness;
+		}
+		
+		albedo[(i * 4) + 0] = clamp(color[0], 0, 1) * 255;
+		albedo[(i * 4) + 1] = clamp(color[1], 0, 1) * 255;
+		albedo[(i * 4) + 2] = clamp(color[2], 0, 1) * 255;
+		albedo[(i * 4) + 3] = 255;
+		
+		metallicRoughness[(i * 4) + 0] = 255;
+		metallicRoughness[(i * 4) + 1] = roughness * 255;
+		metallicRoughness[(i * 4) + 2] = 0;
+		metallicRoughness[(i * 4) + 3] = 255;
+	});
+	
+	// Liquids are flat, so only the terrain above the sea contributes to the slopes
+	const slopeScale = bumpStrength * width / 64;
+	const terrainHeight = (px: number, py: number) => {
+		const wrappedX = (px + width) % width;
+		const clampedY = clamp(py, 0, height - 1);
+		return Math.max(heightMap[(clampedY * width) + wrappedX], seaLevel);
+	};
+	
+	for (let py = 0; py < height; py++) {
+		for (let px = 0; px < width; px++) {
+			const i = (py * width) + px;
+			const dx = (terrainHeight(px + 1, py) - terrainHeight(px - 1, py)) * slopeScale;
+			const dy = (terrainHeight(px, py + 1) - terrainHeight(px, py - 1)) * slopeScale;
+			const length = Math.sqrt((dx * dx) + (dy * dy) + 1);
+			
+			normal[(i * 4) + 0] = ((-dx / length) * 0.5 + 0.5) * 255;
+			normal[(i * 4) + 1] = ((dy / length) * 0.5 + 0.5) * 255;
+			normal[(i * 4) + 2] = ((1 / length) * 0.5 + 0.5) * 255;
+			normal[(i * 4) + 3] = 255;
+		}
+	}
+	
+	return { width, height, heightMap, albedo, normal, metallicRoughness };
+}
+
+/**
+ * Generates an opacity map of drifting cloud bands
+ */
+export function generateCloudCover(options: CloudCoverOptions): CloudCover {
+	
+	const coverage = clamp(options.coverage ?? 0.5, 0, 1);
+	const { width, height } = getMapSize(options.resolution);
+	const noise = createNoise3D(options.seed);
+	const opacity = new Uint8Array(width * height * 4);
+	
+	forEachSpherePixel(width, height, (i, x, y, z) => {
+		// Squashing the vertical axis stretches clouds along the lines of latitude like on real planets
+		const value = 0.5 + (fractalNoise(noise, x * 2, y * 5, z * 2, { octaves: 6 }) * 0.8);
+		const density = smoothstep(1 - coverage - 0.15, 1 - coverage + 0.2, value) * 255;
+		
+		opacity[(i * 4) + 0] = density;
+		opacity[(i * 4) + 1] = density;
+		opacity[(i * 4) + 2] = density;
+		opacity[(i * 4) + 3] = density;
+	});
+	
+	return { width, height, opacity };
+}
+
+function getMapSize(resolution = defaultResolution) {
+	const width = Math.max(8, Math.round(resolution));
+	return { width, height: Math.max(4, Math.round(width / 2)) };
+}
+
+/**
+ * Calls back with the point on the unit sphere and the latitude (-1 south pole to 1 north pole) of every pixel
+ */
+function forEachSpherePixel(width: number, height: number, callback: (i: number, x: number, y: number, z: number, latitude: number) => void) {
+	for (let py = 0; py < height; py++) {
+		const latitude = 1 - (((py + 0.5) / height) * 2);
+		const latitudeAngle = latitude * Math.PI / 2;
+		const y = Math.sin(latitudeAngle);
+		const ringRadius = Math.cos(latitudeAngle);
+		
+		for (let px = 0; px < width; px++) {
+			const longitudeAngle = ((px + 0.5) / width) * Math.PI * 2;
+			callback((py * width) + px, ringRadius * Math.cos(longitudeAngle), y, ringRadius * Math.sin(longitudeAngle), latitude);
+		}
+	}
+}
+
+type ParsedColorStop = { height: number, color: [number, number, number] };
+
+function parseColorRamp(stops: ColorStop[]): ParsedColorStop[] {
+	return stops
+		.map(stop => ({
+			height: stop.height,
+			color: [1, 3, 5].map(offset => parseInt(stop.color.substr(offset, 2), 16) / 255) as [number, number, number],
+		}))
+		.sort((a, b) => a.height - b.height);
+}
+
+function sampleColorRamp(ramp: ParsedColorStop[], value: number): [number, number, number] {
+	if (value <= ramp[0].height) {
+		return ramp[0].color;
+	}
+	
+	for (let i = 1; i < ramp.length; i++) {
+		const upper = ramp[i];
+		
+		if (value <= upper.height) {
+			const lower = ramp[i - 1];
+			const t = (value - lower.height) / Math.max(upper.height - lower.height, 1e-6);
+			return [0, 1, 2].map(c => lower.color[c] + ((upper.color[c] - lower.color[c]) * t)) as [number, number, number];
+		}
+	}
+	
+	return ramp[ramp.length - 1].color;
+}
+
+function smoothstep(edge0: number, edge1: number, value: number) {
+	const t = clamp((value - edge0) / (edge1 - edge0), 0, 1);
+	return t * t * (3 - (2 * t));
+}
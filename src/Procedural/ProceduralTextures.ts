@@ -0,0 +1,34 @@
+import { RawTexture, Scene, Texture } from "@babylonjs/core";
+
+import { CloudCover, PlanetSurface } from './PlanetSurface';
+
+export interface PlanetSurfaceTextures {
+	albedo: RawTexture;
+	normal: RawTexture;
+	metallicRoughness: RawTexture;
+}
+
+/**
+ * Uploads the maps of a generated planet surface
+ */
+export function createPlanetSurfaceTextures(name: string, surface: PlanetSurface, scene: Scene): PlanetSurfaceTextures {
+	return {
+		albedo: createMapTexture(`${name}_albedo`, surface.albedo, surface.width, surface.height, scene),
+		normal: createMapTexture(`${name}_normal`, surface.normal, surface.width, surface.height, scene),
+		metallicRoughness: createMapTexture(`${name}_metallicRoughness`, surface.metallicRoughness, surface.width, surface.height, scene),
+	};
+}
+
+export function createCloudCoverTexture(name: string, cover: CloudCover, scene: Scene) {
+	const texture = createMapTexture(name, cover.opacity, cover.width, cover.height, scene);
+	texture.hasAlpha = true;
+	return texture;
+}
+
+function createMapTexture(name: string, data: Uint8Array, width: number, height: number, scene: Scene) {
+	const texture = RawTexture.CreateRGBATexture(data, width, height, scene, true, false, Texture.TRILINEAR_SAMPLINGMODE);
+	texture.name = name;
+	// Maps wrap around the sphere horizontally but must not bleed from one pole into the other
+	texture.wrapV = Texture.CLAMP_ADDRESSMODE;
+	return texture;
+}
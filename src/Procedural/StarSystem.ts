@@ -0,0 +1,124 @@
+import { BundledAssetKey } from '../Assets/AssetRegistry';
+import { SolarBodyDefinition, SolarSystemDefinition } from '../SolarSystem/Definition';
+import { createSeededRandom, randomRange } from '../Utils/Random';
+import { ProceduralBiome } from './Biomes';
+import { GalaxyStarSystem } from './Galaxy';
+
+interface BiomeTraits {
+	/** Chance of a cloud layer */
+	clouds: number;
+	/** Atmosphere colour, if the biome has one */
+	atmosphere?: string;
+	description: string;
+}
+
+const biomeTraits: Record<ProceduralBiome, BiomeTraits> = {
+	terran: { clouds: 0.8, atmosphere: '#6FA8FF', description: 'An ocean world with scattered continents.' },
+	desert: { clouds: 0.1, atmosphere: '#E0B77A', description: 'A dry world of dunes and wind-carved canyons.' },
+	ice: { clouds: 0.4, atmosphere: '#BFD6E6', description: 'A frozen world with a few patches of open sea.' },
+	lava: { clouds: 0, description: 'A young world still covered in rivers of molten rock.' },
+	toxic: { clouds: 0.6, atmosphere: '#9FD62A', description: 'A swampy world beneath a haze of toxic gases.' },
+};
+
+const biomes = Object.keys(biomeTraits) as ProceduralBiome[];
+
+const planetLod = {
+	useLODScreenCoverage: true,
+	levels: [
+		{ level: 0.01, segments: 8 },
+		{ level: 0.001, segments: 3 },
+	],
+};
+
+/** Letters astronomers append to the star name for its planets */
+const planetSuffixes = 'bcdefghi';
+
+/**
+ * Generates the bodies of a star system from the galaxy, orbiting a star that carries the system's name. Planets use
+ * procedural materials so nothing but the star texture has to be loaded. Deterministic per system seed.
+ */
+export function generateStarSystemDefinition(system: GalaxyStarSystem): SolarSystemDefinition<BundledAssetKey> {
+	
+	const random = createSeededRandom(system.seed);
+	
+	const bodies: SolarBodyDefinition<BundledAssetKey>[] = [{
+		type: 'star',
+		inspectorName: 'star',
+		friendlyName: system.name,
+		description: `A star with a surface temperature of ${system.temperature.toLocaleString('en-US')} K.`,
+		diameter: randomRange(random, 30, 45),
+		segments: 32,
+		lod: planetLod,
+		material: { type: 'star', emissiveTexture: { texture: 'sun' } },
+		gravitationalParameter: 80,
+		// Same as the default system, god rays are only rendered for the main camera
+		layerMask: 0x20000000,
+	}];
+	
+	let semiMajorAxis = 50;
+	
+	for (let i = 0; i < system.planetCount; i++) {
+		const biome = biomes[Math.floor(random() * biomes.length)];
+		const traits = biomeTraits[biome];
+		const inspectorName = `planet${i + 1}`;
+		const friendlyName = `${system.name} ${planetSuffixes.charAt(i)}`;
+		const diameter = randomRange(random, 2, 8);
+		const surfaceSeed = Math.floor(random() * 0x7FFFFFFF);
+		
+		semiMajorAxis += randomRange(random, 25, 50);
+		
+		const planet: SolarBodyDefinition<BundledAssetKey> = {
+			type: 'planet',
+			inspectorName,
+			friendlyName,
+			description: traits.description,
+			diameter,
+			segments: 32,
+			lod: planetLod,
+			material: { type: 'procedural', seed: surfaceSeed, biome, resolution: diameter > 5 ? 512 : 256 },
+			orbit: {
+				semiMajorAxis,
+				eccentricity: randomRange(random, 0, 0.08),
+				inclination: randomRange(random, 0, 6),
+				longitudeOfAscendingNode: randomRange(random, 0, 360),
+				argumentOfPeriapsis: randomRange(random, 0, 360),
+				meanAnomalyAtEpoch: randomRange(random, -180, 180),
+			},
+			rotation: [0, 0, randomRange(random, -0.4, 0.4)],
+		};
+		
+		if (random() < traits.clouds) {
+			planet.clouds = [{ procedural: { seed: surfaceSeed + 1, coverage: randomRange(random, 0.3, 0.6), resolution: 256 }, altitude: 0.03 }];
+		}
+		
+		if (traits.atmosphere) {
+			planet.atmosphere = { color: traits.atmosphere, altitude: 0.06 };
+		}
+		
+		bodies.push(planet);
+		
+		// Only larger planets hold on to a moon
+		if (diameter > 5 && random() < 0.5) {
+			planet.gravitationalParameter = 0.5;
+			
+			bodies.push({
+				type: 'moon',
+				inspectorName: `${inspectorName}_moon1`,
+				friendlyName: `${friendlyName} I`,
+				description: `A barren moon orbiting ${friendlyName}.`,
+				parent: inspectorName,
+				diameter: randomRange(random, 0.8, 1.6),
+				segments: 20,
+				lod: planetLod,
+				material: { type: 'procedural', seed: surfaceSeed + 2, biome: 'desert', colorRamp: [{ height: 0, color: '#5A5652' }, { height: 1, color: '#B5B0A8' }], resolution: 128 },
+				orbit: { semiMajorAxis: diameter * randomRange(random, 1.5, 2.5), eccentricity: randomRange(random, 0, 0.05), inclination: randomRange(random, 0, 8), meanAnomalyAtEpoch: randomRange(random, -180, 180) },
+			});
+		}
+	}
+	
+	return {
+		name: system.name,
+		starSystemId: system.id,
+		bodies,
+	};
+}
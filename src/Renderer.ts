@@ -10,15 +10,17 @@ import {
 	Color4,
 	CubeTexture,
 	DefaultRenderingPipeline,
+	DynamicTexture,
 	EasingFunction,
 	Engine,
 	FreeCamera,
-	HardwareScalingOptimization,
 	HemisphericLight,
 	HighlightLayer,
 	Material,
+	Matrix,
 	Mesh,
 	MeshBuilder,
+	MeshLODLevel,
 	Node,
 	ParticleSystem,
 	PBRMaterial,
@@ -26,14 +28,10 @@ import {
 	PointerEventTypes,
 	PointLight,
 	QuinticEase,
-	RenderTargetsOptimization,
 	Scene,
-	SceneOptimizer,
-	SceneOptimizerOptions,
 	SineEase,
 	StandardMaterial,
 	Texture,
-	TextureOptimization,
 	TransformNode,
 	Vector2,
 	Vector3,
@@ -41,18 +39,72 @@ import {
 	VolumetricLightScatteringPostProcess,
 	Animatable,
 	AssetsManager,
+	TextureAssetTask,
+	AssetTaskState,
+	AbstractAssetTask,
+	ShadowGenerator,
+	KeyboardEventTypes,
+	Xbox360Pad,
+	Xbox360Button,
+	Xbox360Dpad,
+	DualShockPad,
+	GenericPad,
 } from "@babylonjs/core";
 
 import {
 	AdvancedDynamicTexture,
-	Button,
+	Container,
 	Control,
-	MultiLine,
 	Rectangle,
-	TextBlock,
 } from "@babylonjs/gui";
 
 import * as MathUtils from './Utils/Math';
+import { BodyInfoPanel } from './UI/BodyInfoPanel';
+import { LoadingScreen } from './UI/LoadingScreen';
+import * as UI from './UI/Functions';
+import * as UITypes from './UI/Types';
+import { LabelLayout, LayoutLabel } from './UI/LabelLayout';
+import { SettingsPanel } from './UI/SettingsPanel';
+import { getGraphicsPreset, GraphicsPreset, graphicsPresets, GraphicsSettings, loadGraphicsSettings, loadLockedGraphicsSettings, saveGraphicsSettings, saveLockedGraphicsSettings } from './GraphicsSettings';
+import { OptimizationPolicy, OptimizationPolicyName, optimizationPolicies, OptimizationStepName } from './Optimization/Policies';
+import { OptimizationStep, QualityOptimizer } from './Optimization/QualityOptimizer';
+import {
+	AtmosphereDefinition,
+	CloudLayerDefinition,
+	getReferencedTextureKeys,
+	LabelSubtitle,
+	MaterialDefinition,
+	parseSolarSystemDefinition,
+	RingDefinition,
+	SolarBodyDefinition,
+	SolarBodyType,
+	SolarSystemDefinition,
+	TextureReference,
+	Vector3Tuple,
+} from './SolarSystem/Definition';
+import { defaultSolarSystemDefinition } from './SolarSystem/DefaultSystem';
+import { bundledAssets, resolveTextureUrl } from './Assets/AssetRegistry';
+import { TextureAcquireOptions, TextureRegistry } from './Assets/TextureRegistry';
+import { generateCloudCover, generatePlanetSurface } from './Procedural/PlanetSurface';
+import { createCloudCoverTexture, createPlanetSurfaceTextures } from './Procedural/ProceduralTextures';
+import { getDefaultGalaxy, getStarSystemDefinition } from './Procedural/DefaultGalaxy';
+import { Galaxy, GalaxyStarSystem } from './Procedural/Galaxy';
+import { AtmosphereGlow, CloudLayer } from './SolarSystem/Atmosphere';
+import { OrbitVisual } from './SolarSystem/OrbitPaths';
+import { createRingBandTexture, createRingMesh, createRingParticles } from './SolarSystem/Rings';
+import { SimulationClock } from './Simulation/SimulationClock';
+import { TickScheduler } from './Simulation/TickScheduler';
+import { parseTourDefinition, TourDefinition, TourDefinitionError } from './Tour/Definition';
+import { TourPlayer } from './Tour/TourPlayer';
+import { parseViewState, serializeViewState, ViewState } from './ViewState';
+import { RendererEvents } from './Events';
+import {
+	createOrbitalElements,
+	defaultGravitationalParameter,
+	defaultSatelliteHostGravitationalParameter,
+	getOrbitalPosition,
+	OrbitalElements,
+} from './SolarSystem/Orbit';
 
 // Babylon.js full imports
 import "@babylonjs/core/Debug/debugLayer";
@@ -74,26 +126,103 @@ interface SolarBodyConfig {
 		levels: {level: number, segments: number}[];
 	};
 	material: Material;
+	/** Registry textures the material uses, released again when the body's mesh is disposed */
+	acquiredTextures: Texture[];
 	parent?: null | Node;
 	layerMask?: number;
+	definition: SolarBodyDefinition;
+	labelOpts: null | PlanetLabelOpts;
 	postCreateCb?: (meshes: {main: Mesh, lods: Mesh[]}, solarBodyConfig: SolarBodyConfig) => void;
 }
 
-interface PlanetMeta {
+export interface PlanetMeta {
 	mesh: AbstractMesh;
-	type: 'star' | 'planet';
+	type: SolarBodyType;
 	name: string;
+	definition: SolarBodyDefinition;
+	orbit: null | OrbitalElements;
+	/** Body this one orbits, null for the star */
+	parent: null | PlanetMeta;
+	/** Null for bodies without a label */
+	labelOpts: null | PlanetLabelOpts;
 }
 
-interface PlanetLabelOpts {
+export interface PlanetLabelOpts {
 	fontSize: number;
 	rect1Width: number;
 	rect1Height: number;
 	linkOffsetY: number;
 	opacityDistanceControl: { start: number; end: number; };
 	sizeDistanceControl: { start: number; end: number; };
+	color: string;
+	fontFamily: string;
+	iconUrl: null | string;
+	subtitle: null | LabelSubtitle;
+	clickable: boolean;
+}
+
+/** Initial main camera angles and distance, also used when resetting the camera */
+const defaultCameraOrbit = {
+	alpha: -Math.PI / 2,
+	beta: Math.PI / 2,
+	radius: 5,
+};
+
+/** Camera distances over which the solar system shrinks down into the galaxy */
+const galaxyScaleDistance = {
+	start: 100,
+	end: 400,
+};
+
+/**
+ * Solar system units per galaxy unit. The inverse of the smallest solar system scale, so the galaxy appears at its
+ * generated size once fully zoomed out and far beyond the planets' orbits otherwise.
+ */
+const galaxyUnitScale = 100;
+
+/** Diameter of the markers of visitable star systems in galaxy units */
+const starSystemMarkerSize = 8;
+
+export interface CameraOrbitValues {
+	alpha?: number;
+	beta?: number;
+	radius?: number;
+}
+
+export interface FocusBodyOptions {
+	/** Defaults to 1 second */
+	durationSeconds?: number;
+	/** Defaults to a quintic ease out */
+	easing?: EasingFunction;
+	/** Final distance from the body. Keeps the current distance when omitted. */
+	radius?: number;
+	/** Final camera angles. Keep the current view direction when omitted. */
+	alpha?: number;
+	beta?: number;
+	/** Aborting cancels the flight like `cancelFocus()` */
+	signal?: AbortSignal;
 }
 
+const urlViewStateUpdateIntervalMs = 1000;
+
+/** Brightness of the star's texture. Without god rays the star needs a boost to still look bright. */
+const starTextureLevels = {
+	godRays: 1.4,
+	noGodRays: 10,
+};
+
+/** Added to the exposure while god rays are off. On desktop this looks very similar to having them on. */
+const noGodRaysExposureBoost = 0.170;
+
+/** Albedo of bodies whose surface texture failed to load */
+const fallbackAlbedoColor = new Color3(0.5, 0.5, 0.5);
+
+/** Either a URL to a JSON tour or the tour itself */
+export type TourSource = string | TourDefinition;
+
+/** Either a URL to a JSON solar system definition or the definition itself */
+export type SolarSystemSource = string | SolarSystemDefinition;
+
 const defaultPlanetLabelOpts: PlanetLabelOpts = {
 	fontSize: 24,
 	rect1Width: 140,
@@ -101,11 +230,24 @@ const defaultPlanetLabelOpts: PlanetLabelOpts = {
 	linkOffsetY: 170,
 	opacityDistanceControl: { start: 40, end: 60 },
 	sizeDistanceControl: { start: 0, end: 80 },
+	color: 'white',
+	fontFamily: 'Open Sans',
+	iconUrl: null,
+	subtitle: null,
+	clickable: true,
+};
+
+/** The star is much larger than the planets, so its label sits further out and stays visible from further away */
+const starLabelOpts: Partial<PlanetLabelOpts> = {
+	linkOffsetY: 240,
+	opacityDistanceControl: { start: 150, end: 250 },
+	sizeDistanceControl: { start: 0, end: 320 },
 };
 
 export class Renderer {
 	
 	engine: Engine;
+	scene: Scene;
 	
 	// Properties we are exposing for HMR
 	defaultCamera: null | ArcRotateCamera = null;
@@ -118,89 +260,364 @@ export class Renderer {
 		h: 0,
 	};
 	solarSystemTransformNode: null | TransformNode = null;
+	solarSystemDefinition: null | SolarSystemDefinition = null;
 	
 	// Properties to persist on this instance
 	solarBodies: PlanetMeta[] = [];
 	sunLight: null | PointLight = null;
+	sunShadowGenerator: null | ShadowGenerator = null;
 	renderingPipeline: null | DefaultRenderingPipeline = null;
 	
 	// God ray properties
 	hemiLight1: null | HemisphericLight = null;
 	hemiLight2: null | HemisphericLight = null;
 	godRays: null | VolumetricLightScatteringPostProcess = null;
+	/** The star's LOD levels, taken off the star while god rays are on */
+	starLodLevels: MeshLODLevel[] = [];
 	
 	initialDeviceRatio: number = 1 / window.devicePixelRatio;
+	/** Change through `setGraphicsSettings()` so the change is applied and saved */
+	graphicsSettings: GraphicsSettings = loadGraphicsSettings();
+	/** Settings the user has set individually, the optimizer leaves them alone */
+	lockedGraphicsSettings: (keyof GraphicsSettings)[] = loadLockedGraphicsSettings();
 	currentlyFocusedPlanet: null | PlanetMeta = null;
 	
-	onTickCallbacks: ((delta: number, animationRatio: number) => void)[] = [];
+	cameraAnimations: Animatable[] = [];
+	/** Bumped whenever camera animations are stopped early */
+	cameraAnimationGeneration: number = 0;
+	resolveFocus: null | ((completed: boolean) => void) = null;
+	
+	advancedTexture: null | AdvancedDynamicTexture = null;
+	labelLayout: null | LabelLayout = null;
+	bodyInfoPanel: null | BodyInfoPanel = null;
+	settingsPanel: null | SettingsPanel = null;
+	tourPlayer: null | TourPlayer = null;
+	
+	/** Restore the view from the URL hash on load and keep the hash updated. Must be set before the scene is ready. */
+	urlViewStateEnabled: boolean = true;
+	
+	/** Resolves once assets are loaded and the scene is rendering */
+	ready: Promise<void>;
+	initialized: boolean = false;
+	paused: boolean = false;
+	/** Set when the renderer paused itself because the tab was hidden, so that only that pause is undone on return */
+	pausedWhileHidden: boolean = false;
+	disposed: boolean = false;
+	/** The first frame after resuming would otherwise report the whole paused duration as its delta */
+	discardNextFrameDelta: boolean = false;
+	domListenerDisposers: (() => void)[] = [];
 	
-	constructor(public canvasEl: HTMLCanvasElement) {
+	loadingScreen: LoadingScreen;
+	/** Preloaded textures, keyed by asset task name. Textures that failed to load are missing. */
+	textures = new TextureRegistry();
+	
+	particleSystems: ParticleSystem[] = [];
+	galaxy: null | Galaxy = null;
+	/** The galaxy's star system this renderer shows */
+	currentStarSystem: null | GalaxyStarSystem = null;
+	starSystemsMesh: null | Mesh = null;
+	/** Star system per thin instance of `starSystemsMesh` */
+	starSystemInstances: GalaxyStarSystem[] = [];
+	/** Lowers and raises quality to keep the frame rate up, see `setOptimizationPolicy` */
+	qualityOptimizer: null | QualityOptimizer = null;
+	optimizationPolicy: OptimizationPolicy = optimizationPolicies.default;
+	/** Hardware scaling applied by the optimizer on top of the resolution setting */
+	optimizerResolutionFactor: number = 1;
+	
+	orbitVisuals: OrbitVisual[] = [];
+	orbitPathsVisible: boolean = true;
+	orbitTrailsVisible: boolean = true;
+	
+	/** Typed notifications about state changes, for host applications embedding the renderer */
+	events = new RendererEvents();
+	
+	/** Drives all simulated motion. Tick callbacks should read from this rather than accumulating `animationRatio`. */
+	clock = new SimulationClock();
+	
+	/** Per-frame work, grouped into phases. Keep the returned handles to unregister callbacks again. */
+	tickScheduler = new TickScheduler();
+	
+	constructor(public canvasEl: HTMLCanvasElement, solarSystemSource: SolarSystemSource = defaultSolarSystemDefinition) {
 		
 		this.engine = new Engine(canvasEl, true, {stencil: true}, false);
-		this.engine.setHardwareScalingLevel(this.initialDeviceRatio);
+		this.engine.setHardwareScalingLevel(this.initialDeviceRatio * this.graphicsSettings.resolutionScale);
 		this.engine.enableOfflineSupport = false;
 		
 		const scene = new Scene(this.engine);
 		scene.clearColor = Color3.Gray().scale(0.5).toColor4();
+		this.scene = scene;
 		
-		// this.engine.displayLoadingUI();
+		this.loadingScreen = new LoadingScreen(canvasEl);
+		this.engine.loadingScreen = this.loadingScreen;
+		this.engine.displayLoadingUI();
 		
-		this.initAssets(scene).then(() => {
+		this.ready = this.loadSolarSystemDefinition(solarSystemSource).then(async definition => {
+			
+			// The renderer may have been disposed while the definition or assets were loading
+			if (this.disposed) {
+				return;
+			}
+			
+			this.solarSystemDefinition = definition;
+			
+			await this.initAssets(scene, definition);
+			
+			if (this.disposed) {
+				return;
+			}
 			
-			this.initScene(this.engine, scene);
+			this.initScene(this.engine, scene, definition);
+			this.initialized = true;
+			this.engine.hideLoadingUI();
 			
 			// Start render loop
-			this.engine.runRenderLoop(() => {
-				// Get numbers
-				const delta = this.engine.getDeltaTime();
-				const animationRatio = scene.getAnimationRatio();
-				
-				// Run callbacks
-				this.onTickCallbacks.forEach(onTickCallback => onTickCallback(delta, animationRatio));
-				
-				// Render the scene
-				scene.render();
-			});
+			if (!this.paused) {
+				this.engine.runRenderLoop(this.renderFrame);
+			}
+			
+			this.events.emit('sceneReady', {});
 			
 			// Handle window resize events
-			window.addEventListener('resize', () => this.engine.resize());
+			this.addDomListener(window, 'resize', () => this.engine.resize());
+			
+			// Don't burn GPU time on a tab nobody is looking at
+			this.addDomListener(document, 'visibilitychange', () => {
+				if (document.hidden && !this.paused) {
+					this.pause();
+					this.pausedWhileHidden = true;
+				}
+				else if (!document.hidden && this.pausedWhileHidden) {
+					this.resume();
+				}
+			});
 			
 		});
 		
+		this.ready.catch(e => {
+			console.error('Unable to start renderer', e);
+			this.loadingScreen.showError(e instanceof Error ? e.message : String(e));
+		});
+		
+	}
+	
+	/**
+	 * Runs a single frame. An arrow function so the same reference can be handed to `stopRenderLoop`.
+	 */
+	renderFrame = () => {
+		// Get numbers
+		const delta = this.discardNextFrameDelta ? 0 : this.engine.getDeltaTime();
+		const animationRatio = this.scene.getAnimationRatio();
+		this.discardNextFrameDelta = false;
+		
+		// Advance simulation time before anything reads from it
+		this.clock.tick(delta);
+		
+		// Run callbacks
+		this.tickScheduler.tick(delta, animationRatio);
+		
+		// Render the scene
+		this.scene.render();
+	};
+	
+	/**
+	 * Stops rendering and freezes all motion until `resume()` is called. This also happens automatically while the tab is
+	 * hidden.
+	 */
+	pause() {
+		this.pausedWhileHidden = false;
+		
+		if (this.paused || this.disposed) {
+			return;
+		}
+		
+		this.paused = true;
+		this.engine.stopRenderLoop(this.renderFrame);
+	}
+	
+	resume() {
+		this.pausedWhileHidden = false;
+		
+		if (!this.paused || this.disposed) {
+			return;
+		}
+		
+		this.paused = false;
+		this.discardNextFrameDelta = true;
+		
+		// Before initialization the render loop is started once the scene is ready
+		if (this.initialized) {
+			this.engine.runRenderLoop(this.renderFrame);
+		}
+	}
+	
+	/**
+	 * Tears down everything the renderer created: DOM listeners, the render loop, GUI, particles, post processes, the scene
+	 * and finally the engine. The instance cannot be used afterwards but a new `Renderer` can be created on the same canvas.
+	 */
+	dispose() {
+		
+		if (this.disposed) {
+			return;
+		}
+		
+		this.disposed = true;
+		this.engine.stopRenderLoop();
+		
+		this.domListenerDisposers.forEach(removeListener => removeListener());
+		this.domListenerDisposers = [];
+		
+		this.qualityOptimizer?.dispose();
+		this.qualityOptimizer = null;
+		
+		this.cancelFocus();
+		this.tourPlayer?.dispose();
+		this.tourPlayer = null;
+		
+		this.tickScheduler.clear();
+		this.events.clear();
+		this.clock.onRateChangedObservable.clear();
+		this.clock.onTimeSetObservable.clear();
+		
+		this.bodyInfoPanel?.dispose();
+		this.bodyInfoPanel = null;
+		this.settingsPanel?.dispose();
+		this.settingsPanel = null;
+		this.advancedTexture?.dispose();
+		this.advancedTexture = null;
+		this.labelLayout = null;
+		
+		// Particle textures belong to the texture registry
+		this.particleSystems.forEach(particleSystem => {
+			particleSystem.dispose(false);
+			this.textures.release(particleSystem.particleTexture);
+		});
+		this.particleSystems = [];
+		this.starSystemsMesh = null;
+		this.starSystemInstances = [];
+		
+		this.orbitVisuals.forEach(orbitVisual => orbitVisual.dispose());
+		this.orbitVisuals = [];
+		
+		this.godRays && this.defaultCamera && this.godRays.dispose(this.defaultCamera);
+		this.godRays = null;
+		this.renderingPipeline?.dispose();
+		this.renderingPipeline = null;
+		
+		this.textures.dispose();
+		this.loadingScreen.dispose();
+		this.scene.dispose();
+		this.engine.dispose();
+		
+		this.solarBodies = [];
+		this.currentlyFocusedPlanet = null;
+		this.defaultCamera = null;
+		this.exploreCamera = null;
+		this.solarSystemTransformNode = null;
+		
+	}
+	
+	/**
+	 * Adds a DOM event listener that is removed again when the renderer is disposed
+	 */
+	addDomListener(target: EventTarget, type: string, listener: EventListener) {
+		target.addEventListener(type, listener);
+		this.domListenerDisposers.push(() => target.removeEventListener(type, listener));
+	}
+	
+	/**
+	 * Resolves a solar system definition from either a URL to a JSON file or an already parsed object. Both are validated
+	 * and will reject with a `SolarSystemDefinitionError` if the definition is malformed.
+	 */
+	async loadSolarSystemDefinition(source: SolarSystemSource): Promise<SolarSystemDefinition> {
+		
+		if (typeof source !== 'string') {
+			return parseSolarSystemDefinition(source);
+		}
+		
+		const url = (new URL(source, window.location.href)).href;
+		const response = await fetch(url);
+		
+		if (!response.ok) {
+			throw new Error(`Unable to load solar system definition from ${url}: ${response.status} ${response.statusText}`);
+		}
+		
+		// Texture URLs in the file are relative to the file itself
+		return parseSolarSystemDefinition(await response.json(), url);
 	}
 	
-	async initAssets(scene: Scene) {
-		const assetsManager = new AssetsManager(scene);
-		
-		// Define assets we are going to load. When Babylon.js encounters these URLs again, it will use the pre-loaded cached textures without duplicating work.
-		const tasks = {
-			sun: assetsManager.addTextureTask('sun', (new URL('../assets/pexels-photo-2832382.jpeg?as=webp', import.meta.url)).pathname),
-			ertaale_albedo_blue: assetsManager.addTextureTask('ertaale_albedo_blue', (new URL('../assets/generated_planets/planet2_ertaale/ertaale_ast_2006036_lrg_blue.jpg?as=webp', import.meta.url)).pathname),
-			ertaale_bump_low: assetsManager.addTextureTask('ertaale_bump_low', (new URL('../assets/generated_planets/planet2_ertaale/NormalMap-Low.png?as=webp', import.meta.url)).pathname),
-			ertaale_albedo_red: assetsManager.addTextureTask('ertaale_albedo_red', (new URL('../assets/generated_planets/planet2_ertaale/ertaale_ast_2006036_lrg.jpg?as=webp', import.meta.url)).pathname),
-			ertaale_bump: assetsManager.addTextureTask('ertaale_bump', (new URL('../assets/generated_planets/planet2_ertaale/NormalMap.png?as=webp', import.meta.url)).pathname),
-			dgnyre_albedo: assetsManager.addTextureTask('dgnyre_albedo', (new URL('../assets/generated_planets/planet3_dgnyre/dgnyre.jpg?as=webp', import.meta.url)).pathname),
-			dgnyre_bump: assetsManager.addTextureTask('dgnyre_bump', (new URL('../assets/generated_planets/planet3_dgnyre/NormalMap.png?as=webp', import.meta.url)).pathname),
-			dgnyre_clouds: assetsManager.addTextureTask('dgnyre_clouds', (new URL('../assets/generated_planets/planet3_dgnyre/dgnyre-clouds.png?as=webp', import.meta.url)).pathname),
-			iceworld_albedo: assetsManager.addTextureTask('iceworld_albedo', (new URL('../assets/generated_planets/planet4_stan/iceworld2.jpg?as=webp', import.meta.url)).pathname),
-			iceworld_bump: assetsManager.addTextureTask('iceworld_bump', (new URL('../assets/generated_planets/planet4_stan/NormalMap.png?as=webp', import.meta.url)).pathname),
-			toxic_clouds: assetsManager.addTextureTask('toxic_clouds', (new URL('../assets/generated_planets/planet1_toxic/clouds.png', import.meta.url)).pathname),
-			particle_flare: assetsManager.addTextureTask('particle_flare', "https://playground.babylonjs.com/textures/flare.png"),
+	async initAssets(scene: Scene, definition: SolarSystemDefinition) {
+		
+		// Define assets we are going to load. Loaded textures are handed to the texture registry, which everything else acquires them from.
+		const textureUrls: Record<string, string> = {
+			particle_flare: bundledAssets.particle_flare,
 		};
+		getReferencedTextureKeys(definition).forEach(key => textureUrls[key] = resolveTextureUrl(definition.textures, key));
 		
-		// Bind on finish to resolve a Promise
-		const loaderPromise = new Promise(resolve => assetsManager.onFinish = (tasks) => resolve(true));
+		const { loadingScreen } = this;
+		const taskNames = Object.keys(textureUrls);
+		let loadedTaskNames: string[] = [];
+		let failedTaskNames: string[] = [];
+		let pendingTaskNames = taskNames;
+		
+		loadingScreen.loadingUIText = `Loading ${definition.name}`;
+		loadingScreen.setTasks(taskNames);
+		
+		// Keep going for as long as the user asks to retry whatever failed
+		while (pendingTaskNames.length > 0) {
+			
+			const assetsManager = new AssetsManager(scene);
+			// Our own loading screen shows progress and has to stay up across retries
+			assetsManager.useDefaultLoadingScreen = false;
+			
+			pendingTaskNames.forEach(name => assetsManager.addTextureTask(name, textureUrls[name]));
+			
+			assetsManager.onProgress = (_remainingCount, _totalCount, task) => {
+				// The registry is gone already, nothing would release the texture
+				if (this.disposed) {
+					(task as TextureAssetTask).texture?.dispose();
+					return;
+				}
+				
+				if (task.taskState === AssetTaskState.DONE && task instanceof TextureAssetTask) {
+					this.textures.add(task.name, task.texture);
+					loadedTaskNames.push(task.name);
+					loadingScreen.setTaskStatus(task.name, 'done');
+				}
+				else {
+					// Whatever got created for a failed task is of no use
+					(task as TextureAssetTask).texture?.dispose();
+					loadingScreen.setTaskStatus(task.name, 'failed', task.errorObject?.message);
+				}
+				
+				loadingScreen.setProgress(taskNames.length - loadedTaskNames.length, taskNames.length);
+			};
+			
+			// Bind on finish to resolve a Promise
+			const finishedTasks = await new Promise<AbstractAssetTask[]>(resolve => {
+				assetsManager.onFinish = resolve;
+				
+				// Start asset loading
+				assetsManager.load();
+			});
+			
+			failedTaskNames = finishedTasks.filter(task => task.taskState === AssetTaskState.ERROR).map(task => task.name);
+			
+			if (failedTaskNames.length === 0 || this.disposed || await loadingScreen.promptFailures(failedTaskNames) === 'continue') {
+				break;
+			}
+			
+			failedTaskNames.forEach(name => loadingScreen.setTaskStatus(name, 'pending'));
+			pendingTaskNames = failedTaskNames;
+		}
 		
-		// Start asset loading
-		assetsManager.load();
+		this.events.emit('assetsLoaded', { definition, loadedTaskNames, failedTaskNames });
 		
-		return loaderPromise;
 	}
 	
-	initScene(engine: Engine, scene: Scene) {
+	initScene(engine: Engine, scene: Scene, definition: SolarSystemDefinition) {
 		
 		// Create default camera
-		const camera = new ArcRotateCamera('camera', -Math.PI / 2, Math.PI / 2, 5, new Vector3(0, 100, 0), scene);
+		const camera = new ArcRotateCamera('camera', defaultCameraOrbit.alpha, defaultCameraOrbit.beta, defaultCameraOrbit.radius, new Vector3(0, 100, 0), scene);
 		this.defaultCamera = camera;
 		// Bind mouse events on the canvas to be associated with this camera
 		camera.attachControl(engine._workingCanvas, true);
@@ -219,7 +636,8 @@ export class Renderer {
 		this.exploreCamera = exploreCamera;
 		
 		// Manually set up rotation on explore camera. There is a autoRotate behavior but it doesn't work as expected with multiple cameras.
-		this.onTickCallbacks.push((_delta, animationRatio) => exploreCamera.alpha -= animationRatio * 0.002);
+		// The drift follows the simulation clock's direction and pausing but is not time-warped, which would spin the PIP wildly
+		this.tickScheduler.add((_delta, animationRatio) => exploreCamera.alpha -= animationRatio * 0.002 * MathUtils.clamp(this.clock.effectiveRate, -1, 1), { name: 'exploreCameraDrift', phase: 'camera' });
 		
 		if (this.useOrthographicExploreCamera) {
 			exploreCamera.mode = Camera.ORTHOGRAPHIC_CAMERA;
@@ -253,6 +671,9 @@ export class Renderer {
 			scene.activeCameras.push(exploreCamera);
 		}
 		
+		// Work for bodies neither camera sees is skipped
+		this.tickScheduler.cameras = [camera, exploreCamera];
+		
 		// Initially do not check collisions while scene is initializing
 		scene.collisionsEnabled = false;
 		setImmediate(() => scene.collisionsEnabled = true);
@@ -307,25 +728,34 @@ export class Renderer {
 		
 		// Other stuff
 		this.initPost(scene, [camera, exploreCamera]);
-		this.initPlanets(scene, camera, solarSystemTransformNode);
-		this.initGuiWip();
+		this.initPlanets(scene, camera, solarSystemTransformNode, definition);
+		this.setGodRays(this.graphicsSettings.godRays, this.graphicsSettings.godRaySampleSize);
+		this.initGui();
+		this.initBodyInfoPanel(scene, solarSystemTransformNode);
+		this.initSettingsPanel();
+		this.initTourPlayer(scene);
 		this.initParticles(scene);
+		this.initGalaxy(scene, solarSystemTransformNode, definition);
 		this.registerGalaxyScaling(camera, solarSystemTransformNode);
 		this.registerPlanetOrbitRotation();
-		this.autoOptimizeScene(scene, camera);
+		this.initOrbitVisuals(scene);
+		this.initQualityOptimizer();
 		this.initJumpToCameraPosition(scene, camera, exploreCamera, solarSystemTransformNode, 1);
+		this.initKeyboardNavigation(scene);
+		this.initGamepadNavigation(scene, camera);
 		
 		// Set up collisions on meshes
 		this.solarBodies.forEach(solarBody => solarBody.mesh.checkCollisions = true);
 		
 		// Parent the cameras
 		const firstPlanetMeta = this.solarBodies.filter(solarBody => solarBody.type === 'planet')[0];
-		this.currentlyFocusedPlanet = firstPlanetMeta;
+		this.setFocusedPlanet(firstPlanetMeta);
 		exploreCamera.parent = firstPlanetMeta.mesh;
+		exploreCamera.radius = Renderer.getExploreCameraRadius(firstPlanetMeta);
 		// camera.parent = firstPlanetMeta.mesh;
 		// camera.target = Vector3.Zero();
 		
-		this.onTickCallbacks.push(() => {
+		this.tickScheduler.add(() => {
 			
 			// Null safe check
 			if (!this.currentlyFocusedPlanet) {
@@ -343,7 +773,9 @@ export class Renderer {
 			if (solarSystemTransformNode.scaling.equalsWithEpsilon(Vector3.One(), 0.01)) {
 				solarSystemTransformNode.setPivotPoint(camera.target);
 			}
-		});
+		}, { name: 'cameraFollowFocus', phase: 'camera' });
+		
+		this.initUrlViewState();
 		
 		// Show inspector on dev
 		if (process.env.NODE_ENV === 'development') {
@@ -362,7 +794,9 @@ export class Renderer {
 		const defaultPipe = new DefaultRenderingPipeline('Default Pipeline', true, scene, cameras);
 		this.renderingPipeline = defaultPipe;
 		
-		defaultPipe.fxaaEnabled = true;
+		const settings = this.graphicsSettings;
+		
+		defaultPipe.fxaaEnabled = settings.fxaa;
 		
 		defaultPipe.imageProcessing.toneMappingEnabled = true;
 		defaultPipe.imageProcessing.toneMappingType = 1;
@@ -371,345 +805,75 @@ export class Renderer {
 		defaultPipe.imageProcessing.vignetteWeight = 1.5;
 		defaultPipe.imageProcessing.vignetteCameraFov = 0.6;
 		
-		defaultPipe.bloomEnabled = true;
+		defaultPipe.bloomEnabled = settings.bloom;
 		defaultPipe.bloomThreshold = 0.5;
 		defaultPipe.bloomWeight = 0.7;
 		defaultPipe.bloomKernel = 64;
 		defaultPipe.bloomScale = 0.5;
 		
-		defaultPipe.chromaticAberrationEnabled = true;
+		defaultPipe.chromaticAberrationEnabled = settings.chromaticAberration;
 		defaultPipe.chromaticAberration.aberrationAmount = 30;
 		defaultPipe.chromaticAberration.radialIntensity = 0.8;
 		
-		defaultPipe.glowLayerEnabled = true;
+		defaultPipe.glowLayerEnabled = settings.glow;
 		if (defaultPipe.glowLayer) {
 			defaultPipe.glowLayer.blurKernelSize = 96;
 			defaultPipe.glowLayer.intensity = 0.5;
 		}
 	}
 	
-	initPlanets(scene: Scene, camera: ArcRotateCamera, solarSystemTransformNode: TransformNode) {
+	initPlanets(scene: Scene, camera: ArcRotateCamera, solarSystemTransformNode: TransformNode, definition: SolarSystemDefinition) {
 		
 		const highlightLayer = new HighlightLayer("hl1", scene);
 		
-		/** Disable upfront for potato devices. Note: this is automatically optimized away otherwise */
-		const useGodRays: boolean = true;
-		
-		/** Powerful GPUs can handle a larger sample size. High end mobile can do like 20 max. */
-		const godRaySampleSize: number = 200;
-		
-		const solarBodyConfigs: SolarBodyConfig[] = [
-			{
-				type: 'star',
-				inspectorName: 'sun',
-				friendlyName: 'Sun',
-				baseConfig: {diameter: 40, segments: 32},
-				lodConfig: useGodRays ? undefined : {
-					useLODScreenCoverage: true,
-					levels: [
-						{level: 0.01, segments: 8},
-						{level: 0.001, segments: 3},
-					],
-				},
-				layerMask: 0x20000000,
-				material: (() => {
-					// const mat = new StandardMaterial('tempMat', scene);
-					// mat.emissiveColor = Color3.FromHexString('#FFF8EE');
-					// mat.disableLighting = true; // This is fully emissive so no need for lighting
-					
-					const domeTextureUrl = 'https://images.pexels.com/photos/2832382/pexels-photo-2832382.jpeg?auto=compress&cs=tinysrgb&w=1260&h=750&dpr=2';
-					const domeTexture = new Texture(domeTextureUrl, scene);
-					
-					let mat = new StandardMaterial("godRaySunMat", scene);
-					mat.diffuseColor = mat.emissiveColor = new Color3(1, 1 ,1);
-					mat.diffuseTexture = mat.emissiveTexture = domeTexture;
-					mat.specularColor = new Color3(0, 0.01, 0);
-					mat.backFaceCulling = false;
-					
-					if (!useGodRays) {
-						// Boost levels
-						domeTexture.level = 10;
-					}
-					else {
-						domeTexture.level = 1.4;
-					}
-					
-					return mat;
-				})(),
-				parent: this.sunLight,
-				postCreateCb: meshes => {
+		const solarBodyConfigs: SolarBodyConfig[] = definition.bodies.map(bodyDefinition => {
+			const acquiredTextures: Texture[] = [];
+			
+			return {
+				type: bodyDefinition.type,
+				inspectorName: bodyDefinition.inspectorName,
+				friendlyName: bodyDefinition.friendlyName,
+				baseConfig: {diameter: bodyDefinition.diameter, segments: bodyDefinition.segments},
+				// Stars drop their LOD levels while they have god rays, see setGodRays
+				lodConfig: bodyDefinition.lod,
+				material: this.createSolarBodyMaterial(scene, bodyDefinition.material, this.graphicsSettings.godRays, acquiredTextures),
+				acquiredTextures,
+				parent: bodyDefinition.type === 'star' ? this.sunLight : solarSystemTransformNode,
+				layerMask: bodyDefinition.layerMask,
+				definition: bodyDefinition,
+				labelOpts: this.getPlanetLabelOpts(bodyDefinition, definition),
+				postCreateCb: (meshes, solarBodyConfig) => {
 					const allMeshes = [meshes.main, ...meshes.lods];
 					
-					this.hemiLight1 && (this.hemiLight1.includedOnlyMeshes = allMeshes);
-					this.hemiLight2 && (this.hemiLight2.includedOnlyMeshes = allMeshes);
-					
-					allMeshes.forEach(mesh => highlightLayer.addMesh(mesh, Color3.Blue().scale(0.3)));
-					
-					// TODO: Set up occlusion queries
-					// [meshes.main].forEach(mesh => {
-					// 	mesh.occlusionQueryAlgorithmType = AbstractMesh.OCCLUSION_ALGORITHM_TYPE_CONSERVATIVE;
-					// 	mesh.occlusionType = AbstractMesh.OCCLUSION_TYPE_STRICT;
-					// });
-					// this.onTickCallbacks.push(() => this.renderingPipeline && (this.renderingPipeline.imageProcessing.exposure = meshes.main.isOccluded ? 1 : 0.3));
-					
-					if (useGodRays) {
-						allMeshes.forEach(mesh => {
-							
-							if (this.defaultCamera) {
-								const godRays = new VolumetricLightScatteringPostProcess('GodRays', 1.0, camera, mesh, godRaySampleSize, Texture.BILINEAR_SAMPLINGMODE, this.engine, false, scene);
-								this.godRays = godRays;
-								
-								godRays.exposure = 0.5;
-								godRays.decay = 0.98115;
-								godRays.weight = 0.98767;
-								godRays.density = 0.996;
-								
-								// console.log('Material:', godRays.mesh.material);
-								
-								// if (godRays.mesh.material) {
-								// 	const mat = godRays.mesh.material as StandardMaterial;
-									
-								// 	mat.diffuseTexture = new Texture(DOME_TEXTURE, scene);
-								// 	mat.diffuseTexture.hasAlpha = true;
-								// }
-								
-							}
-						});
+					if (bodyDefinition.position) {
+						meshes.main.position.addInPlace(Vector3.FromArray(bodyDefinition.position));
 					}
-				},
-			},
-			{
-				type: 'planet',
-				inspectorName: 'planet1',
-				friendlyName: 'Penuaturn', // https://www.fantasynamegenerators.com/planet_names.php
-				baseConfig: {diameter: 2, segments: 26},
-				lodConfig: {
-					useLODScreenCoverage: true,
-					levels: [
-						{level: 0.01, segments: 8},
-						{level: 0.001, segments: 3},
-					],
-				},
-				material: (() => {
-					const mat = new PBRMaterial('tempMat', scene);
-					
-					// Textures grabbed from https://sites.google.com/site/mapsandsuch/maps-of-fictional-worlds and modified as needed
-					// Other ways to generate online are listed here https://blender.stackexchange.com/questions/31424/planet-texture-generator
-					const planet3Textures = {
-						diffuse: new Texture((new URL('../assets/generated_planets/planet2_ertaale/ertaale_ast_2006036_lrg_blue.jpg?as=webp', import.meta.url)).pathname, scene),
-						normal: new Texture((new URL('../assets/generated_planets/planet2_ertaale/NormalMap-Low.png?as=webp', import.meta.url)).pathname, scene),
-					};
-					planet3Textures.normal.level = 1.6;
-					mat.albedoTexture = planet3Textures.diffuse;
-					mat.bumpTexture = planet3Textures.normal;
-					mat.metallic = 0.0; // Set these to 1.0 to use metallic & roughness from texture
-					mat.roughness = 1.0;
-					// mat.directIntensity = 2;
-					mat.specularIntensity = 0.27;
-					
-					return mat;
-				})(),
-				parent: solarSystemTransformNode,
-				postCreateCb: meshes => {
-					const allMeshes = [meshes.main, ...meshes.lods];
-					meshes.main.position.addInPlace(new Vector3(50, 50, -10));
-					meshes.main.rotation.addInPlace(new Vector3(0, Math.PI * 0.12, Math.PI * 0.06));
-					allMeshes.forEach(mesh => highlightLayer.addMesh(mesh, new Color3(0.2, 0.4, 1).scale(0.3)));
-				},
-			},
-			{
-				type: 'planet',
-				inspectorName: 'planet2',
-				friendlyName: 'Unradus',
-				baseConfig: {diameter: 1.5, segments: 26},
-				lodConfig: {
-					useLODScreenCoverage: true,
-					levels: [
-						{level: 0.01, segments: 8},
-						{level: 0.001, segments: 3},
-					],
-				},
-				material: (() => {
-					const mat = new PBRMetallicRoughnessMaterial('tempMat', scene);
-					mat.metallic = 0.5;
-					mat.roughness = 0.3;
-					mat.baseColor = Color3.Teal();
-					const normal = new Texture((new URL('../assets/generated_planets/planet2_ertaale/NormalMap-Low.png?as=webp', import.meta.url)).pathname, scene);
-					normal.level = 0.25;
-					mat.normalTexture = normal;
-					return mat;
-				})(),
-				parent: solarSystemTransformNode,
-				postCreateCb: meshes => {
-					const allMeshes = [meshes.main, ...meshes.lods];
-					meshes.main.position.addInPlace(new Vector3(200, 0, 0));
-					allMeshes.forEach(mesh => highlightLayer.addMesh(mesh, new Color3(0.2, 0.4, 1).scale(1)));
-				},
-			},
-			{
-				type: 'planet',
-				inspectorName: 'planet3',
-				friendlyName: 'Lyke GS',
-				baseConfig: {diameter: 3.5, segments: 26},
-				lodConfig: {
-					useLODScreenCoverage: true,
-					levels: [
-						{level: 0.01, segments: 8},
-						{level: 0.001, segments: 3},
-					],
-				},
-				material: (() => {
-					const mat = new PBRMaterial('tempMat', scene);
-					
-					// Textures grabbed from https://sites.google.com/site/mapsandsuch/maps-of-fictional-worlds and modified as needed
-					// Other ways to generate online are listed here https://blender.stackexchange.com/questions/31424/planet-texture-generator
-					const planet3Textures = {
-						diffuse: new Texture((new URL('../assets/generated_planets/planet2_ertaale/ertaale_ast_2006036_lrg.jpg?as=webp', import.meta.url)).pathname, scene),
-						normal: new Texture((new URL('../assets/generated_planets/planet2_ertaale/NormalMap.png?as=webp', import.meta.url)).pathname, scene),
-					};
-					mat.albedoTexture = planet3Textures.diffuse;
-					mat.bumpTexture = planet3Textures.normal;
-					mat.metallic = 0.0; // Set these to 1.0 to use metallic & roughness from texture
-					mat.roughness = 1.0;
 					
-					return mat;
-				})(),
-				parent: solarSystemTransformNode,
-				postCreateCb: (meshes, solarBodyConfig) => {
-					meshes.main.position.addInPlace(new Vector3(-20, 20, 100));
-					meshes.main.rotation.addInPlace(new Vector3(0, 0, Math.PI * 0.12));
-				},
-			},
-			{
-				type: 'planet',
-				inspectorName: 'planet4',
-				friendlyName: 'Vore 0MI',
-				baseConfig: {diameter: 17, segments: 32},
-				lodConfig: {
-					useLODScreenCoverage: true,
-					levels: [
-						{level: 0.01, segments: 8},
-						{level: 0.001, segments: 3},
-					],
-				},
-				material: (() => {
-					const mat = new PBRMaterial('tempMat', scene);
-					
-					// Textures grabbed from https://sites.google.com/site/mapsandsuch/maps-of-fictional-worlds and modified as needed
-					// Other ways to generate online are listed here https://blender.stackexchange.com/questions/31424/planet-texture-generator
-					const planet3Textures = {
-						diffuse: new Texture((new URL('../assets/generated_planets/planet3_dgnyre/dgnyre.jpg?as=webp', import.meta.url)).pathname, scene),
-						normal: new Texture((new URL('../assets/generated_planets/planet3_dgnyre/NormalMap.png?as=webp', import.meta.url)).pathname, scene),
-					};
-					mat.albedoTexture = planet3Textures.diffuse;
-					mat.bumpTexture = planet3Textures.normal;
-					mat.metallic = 0.0;
-					mat.roughness = 1.0;
-					
-					return mat;
-				})(),
-				parent: solarSystemTransformNode,
-				postCreateCb: (meshes, solarBodyConfig) => {
-					meshes.main.position.addInPlace(new Vector3(-200, 20, 100));
-					meshes.main.rotation.addInPlace(new Vector3(0, 0, (Math.PI * 0.21)));
-					
-					// Set up cloud layer
-					const cloudHeightPerc = 0.05;
-					const cloudsMesh = MeshBuilder.CreateSphere(
-						`${solarBodyConfig.inspectorName}_clouds`,
-						{
-							diameter: solarBodyConfig.baseConfig.diameter + (cloudHeightPerc * solarBodyConfig.baseConfig.diameter),
-							segments: solarBodyConfig.baseConfig.segments / 2
-						},
-						scene
-					);
-					cloudsMesh.renderingGroupId = 1;
-					cloudsMesh.layerMask = 0x10000000;
-					cloudsMesh.parent = meshes.main;
-					cloudsMesh.isPickable = false;
-					
-					// From https://sites.google.com/site/mapsandsuch/maps-of-fictional-worlds
-					const cloudsDiffuse = new Texture((new URL('../assets/generated_planets/planet3_dgnyre/dgnyre-clouds.png?as=webp', import.meta.url)).pathname, scene);
-					
-					const cloudsMat = new PBRMaterial(`${solarBodyConfig.inspectorName}_cloudsMat`, scene);
-					cloudsMat.opacityTexture = cloudsDiffuse;
-					cloudsMat.metallic = 0.0;
-					cloudsMat.roughness = 1.0;
-					cloudsMesh.material = cloudsMat;
-					
-					// Rotate the cloud cover slowly
-					const cloudRotationSpeed = 0.0002;
-					this.onTickCallbacks.push((_delta, animationRatio) =>
-						cloudsMesh.rotate(new Vector3(0, -1, 0), cloudRotationSpeed * animationRatio));
-					
-				},
-			},
-			{
-				type: 'planet',
-				inspectorName: 'planet5',
-				friendlyName: 'Beta Stan VI',
-				baseConfig: {diameter: 3, segments: 32},
-				lodConfig: {
-					useLODScreenCoverage: true,
-					levels: [
-						{level: 0.01, segments: 8},
-						{level: 0.001, segments: 3},
-					],
-				},
-				material: (() => {
-					const mat = new PBRMaterial('tempMat', scene);
-					
-					// Textures grabbed from https://sites.google.com/site/mapsandsuch/maps-of-fictional-worlds and modified as needed
-					// Other ways to generate online are listed here https://blender.stackexchange.com/questions/31424/planet-texture-generator
-					const planet3Textures = {
-						diffuse: new Texture((new URL('../assets/generated_planets/planet4_stan/iceworld2.jpg?as=webp', import.meta.url)).pathname, scene),
-						normal: new Texture((new URL('../assets/generated_planets/planet4_stan/NormalMap.png?as=webp', import.meta.url)).pathname, scene),
-					};
-					mat.albedoTexture = planet3Textures.diffuse;
-					mat.bumpTexture = planet3Textures.normal;
-					mat.metallic = 0.0; // Set these to 1.0 to use metallic & roughness from texture
-					mat.roughness = 1.0;
-					
-					return mat;
-				})(),
-				parent: solarSystemTransformNode,
-				postCreateCb: (meshes, solarBodyConfig) => {
-					meshes.main.position.addInPlace(new Vector3(50, 20, -200));
-					meshes.main.rotation.addInPlace(new Vector3(0, 0, -(Math.PI * 0.12)));
+					if (bodyDefinition.rotation) {
+						meshes.main.rotation.addInPlace(Vector3.FromArray(bodyDefinition.rotation));
+					}
 					
-					// Set up cloud layer
-					const cloudHeightPerc = 0.01;
-					const cloudsMesh = MeshBuilder.CreateSphere(
-						`${solarBodyConfig.inspectorName}_clouds`,
-						{
-							diameter: solarBodyConfig.baseConfig.diameter + (cloudHeightPerc * solarBodyConfig.baseConfig.diameter),
-							segments: solarBodyConfig.baseConfig.segments / 2
-						},
-						scene
-					);
-					cloudsMesh.renderingGroupId = 1;
-					cloudsMesh.layerMask = 0x10000000;
-					cloudsMesh.parent = meshes.main;
-					cloudsMesh.isPickable = false;
+					if (bodyDefinition.highlightColor) {
+						const highlightColor = Color3.FromHexString(bodyDefinition.highlightColor);
+						allMeshes.forEach(mesh => highlightLayer.addMesh(mesh, highlightColor));
+					}
 					
-					// From https://sites.google.com/site/mapsandsuch/maps-of-fictional-worlds
-					const cloudsDiffuse = new Texture((new URL('../assets/generated_planets/planet1_toxic/clouds.png', import.meta.url)).pathname, scene);
-					cloudsDiffuse.level = 0.1;
+					bodyDefinition.clouds?.forEach((cloudLayerDefinition, i) => this.initCloudLayer(scene, meshes.main, solarBodyConfig, cloudLayerDefinition, i));
 					
-					const cloudsMat = new PBRMaterial(`${solarBodyConfig.inspectorName}_cloudsMat`, scene);
-					cloudsMat.opacityTexture = cloudsDiffuse;
-					cloudsMat.metallic = 0.0;
-					cloudsMat.roughness = 1.0;
-					cloudsMesh.material = cloudsMat;
+					if (bodyDefinition.atmosphere) {
+						this.initAtmosphere(scene, meshes.main, solarBodyConfig, bodyDefinition.atmosphere);
+					}
 					
-					// Rotate the cloud cover slowly
-					const cloudRotationSpeed = 0.0002;
-					this.onTickCallbacks.push((_delta, animationRatio) =>
-						cloudsMesh.rotate(new Vector3(0, -1, 0), cloudRotationSpeed * animationRatio));
+					if (bodyDefinition.rings) {
+						this.initRings(scene, meshes, solarBodyConfig, bodyDefinition.rings);
+					}
 					
+					if (bodyDefinition.type === 'star') {
+						this.initStar(allMeshes);
+					}
 				},
-			},
-		];
+			};
+		});
 		
 		// Build solar bodies
 		solarBodyConfigs.forEach(solarBodyConfig => {
@@ -722,19 +886,34 @@ export class Renderer {
 			sphereMesh.renderingGroupId = 1;
 			sphereMesh.layerMask = solarBodyConfig.layerMask ?? 0x10000000;
 			
+			// Satellites orbit their parent body (defaulting to the star) and inherit its motion by being parented to its mesh
+			const parentName = solarBodyConfig.definition.parent;
+			const parentMeta = this.solarBodies.filter(solarBody => parentName ? solarBody.definition.inspectorName === parentName : solarBody.type === 'star')[0] ?? null;
+			const parentGravitationalParameter = parentMeta?.definition.gravitationalParameter
+				?? (parentMeta?.type === 'star' ? defaultGravitationalParameter : defaultSatelliteHostGravitationalParameter);
+			
 			this.solarBodies.push({
 				mesh: sphereMesh,
 				type: solarBodyConfig.type,
 				name: solarBodyConfig.friendlyName,
+				definition: solarBodyConfig.definition,
+				orbit: solarBodyConfig.definition.orbit ? createOrbitalElements(solarBodyConfig.definition.orbit, parentGravitationalParameter) : null,
+				parent: solarBodyConfig.type === 'star' ? null : parentMeta,
+				labelOpts: solarBodyConfig.labelOpts,
 			});
 			
 			sphereMesh.material = solarBodyConfig.material;
 			sphereMesh.material.name = `${solarBodyConfig.inspectorName}Mat`;
 			
-			if (solarBodyConfig.parent) {
+			if (parentMeta && parentMeta.type !== 'star' && solarBodyConfig.type !== 'star') {
+				sphereMesh.parent = parentMeta.mesh;
+			}
+			else if (solarBodyConfig.parent) {
 				sphereMesh.parent = solarBodyConfig.parent;
 			}
 			
+			sphereMesh.onDisposeObservable.addOnce(() => solarBodyConfig.acquiredTextures.forEach(texture => this.textures.release(texture)));
+			
 			// Set up LOD alts
 			const lodMeshes: Mesh[] = [];
 			
@@ -760,7 +939,7 @@ export class Renderer {
 					lodSphereMesh.parent = sphereMesh;
 					
 					// Attach the various LODs to the main mesh
-					sphereMesh.addLODLevel(0.01, lodSphereMesh);
+					sphereMesh.addLODLevel(lodLevelConfig.level, lodSphereMesh);
 					
 				});
 				
@@ -773,202 +952,1027 @@ export class Renderer {
 		
 	}
 	
-	initGuiWip() {
-		
-		// Create 2D GUI manager
-		const advancedTexture = AdvancedDynamicTexture.CreateFullscreenUI('UI'); // 2D GUI (fullscreen)
-		advancedTexture.layer && (advancedTexture.layer.layerMask = 0x20000000); // Set layerMask to only render on main camera
+	/**
+	 * Creates the Babylon.js material described by a body's material definition
+	 */
+	createSolarBodyMaterial(scene: Scene, materialDefinition: MaterialDefinition, useGodRays: boolean, acquiredTextures: Texture[]): Material {
 		
-		this.solarBodies
-			.filter(solarBody => solarBody.type === 'planet')
-			.forEach(solarBody => this.initPlanetLabel(advancedTexture, solarBody.mesh, solarBody.name));
+		const acquire = (reference: TextureReference, options?: TextureAcquireOptions) => {
+			const texture = this.textures.acquireReference(reference, options);
+			texture && acquiredTextures.push(texture);
+			return texture;
+		};
 		
+		switch (materialDefinition.type) {
+			case 'star': {
+				// Boost levels when there are no god rays to brighten the star
+				const domeTexture = acquire(materialDefinition.emissiveTexture, { level: useGodRays ? starTextureLevels.godRays : starTextureLevels.noGodRays });
+				
+				const mat = new StandardMaterial("godRaySunMat", scene);
+				mat.diffuseColor = mat.emissiveColor = new Color3(1, 1 ,1);
+				// Without its texture the plain white emissive colour stands in for the surface
+				mat.diffuseTexture = mat.emissiveTexture = domeTexture;
+				mat.specularColor = new Color3(0, 0.01, 0);
+				mat.backFaceCulling = false;
+				
+				return mat;
+			}
+			case 'pbr': {
+				const mat = new PBRMaterial('tempMat', scene);
+				
+				if (materialDefinition.albedoTexture) {
+					const albedoTexture = acquire(materialDefinition.albedoTexture);
+					
+					if (albedoTexture) {
+						mat.albedoTexture = albedoTexture;
+					}
+					else {
+						mat.albedoColor = fallbackAlbedoColor.clone();
+					}
+				}
+				if (materialDefinition.bumpTexture) {
+					const bumpTexture = acquire(materialDefinition.bumpTexture);
+					bumpTexture && (mat.bumpTexture = bumpTexture);
+				}
+				
+				mat.metallic = materialDefinition.metallic ?? 0.0;
+				mat.roughness = materialDefinition.roughness ?? 1.0;
+				
+				if (materialDefinition.specularIntensity !== undefined) {
+					mat.specularIntensity = materialDefinition.specularIntensity;
+				}
+				
+				return mat;
+			}
+			case 'pbrMetallicRoughness': {
+				const mat = new PBRMetallicRoughnessMaterial('tempMat', scene);
+				mat.metallic = materialDefinition.metallic ?? 0.0;
+				mat.roughness = materialDefinition.roughness ?? 1.0;
+				
+				if (materialDefinition.baseColor) {
+					mat.baseColor = Color3.FromHexString(materialDefinition.baseColor);
+				}
+				if (materialDefinition.normalTexture) {
+					const normalTexture = acquire(materialDefinition.normalTexture);
+					normalTexture && (mat.normalTexture = normalTexture);
+				}
+				
+				return mat;
+			}
+			case 'procedural': {
+				const surfaceTextures = createPlanetSurfaceTextures(`procedural_${materialDefinition.seed}`, generatePlanetSurface(materialDefinition), scene);
+				
+				const mat = new PBRMaterial('tempMat', scene);
+				mat.albedoTexture = surfaceTextures.albedo;
+				mat.bumpTexture = surfaceTextures.normal;
+				mat.metallicTexture = surfaceTextures.metallicRoughness;
+				mat.useRoughnessFromMetallicTextureGreen = true;
+				mat.useMetallnessFromMetallicTextureBlue = true;
+				mat.useRoughnessFromMetallicTextureAlpha = false;
+				// The generated map holds the final values, these only scale them
+				mat.metallic = 1.0;
+				mat.roughness = 1.0;
+				
+				if (materialDefinition.specularIntensity !== undefined) {
+					mat.specularIntensity = materialDefinition.specularIntensity;
+				}
+				
+				return mat;
+			}
+		}
 	}
 	
-	initPlanetLabel(advancedTexture: AdvancedDynamicTexture, planetMesh: AbstractMesh, planetName: string, opts?: Partial<PlanetLabelOpts>) {
-		
-		const fontSize = opts?.fontSize ?? defaultPlanetLabelOpts.fontSize;
-		const rect1Width = opts?.rect1Width ?? defaultPlanetLabelOpts.rect1Width;
-		const rect1Height = opts?.rect1Height ?? defaultPlanetLabelOpts.rect1Height;
-		const linkOffsetY = opts?.linkOffsetY ?? defaultPlanetLabelOpts.linkOffsetY;
-		const opacityDistanceControl = opts?.opacityDistanceControl ?? defaultPlanetLabelOpts.opacityDistanceControl;
-		const sizeDistanceControl = opts?.sizeDistanceControl ?? defaultPlanetLabelOpts.sizeDistanceControl;
-		
-		const labelText = new TextBlock(`planetText_${planetName}`);
-		labelText.text = planetName;
-		labelText.color = 'white';
-		labelText.fontSize = fontSize;
-		labelText.fontFamily = 'Open Sans';
-		
-		const labelRect = new Rectangle(`labelRect_${planetName}`);
-		labelRect.width = `${rect1Width}px`;
-		labelRect.height = `${rect1Height}px`;
-		labelRect.addControl(labelText);
-		
-		const line = new MultiLine(`line_${planetName}`);
-		line.lineWidth = 3;
-		// line.dash = [5, 10];
-		line.color = 'white';
-		line.zIndex = 1;
+	initCloudLayer(scene: Scene, planetMesh: Mesh, solarBodyConfig: SolarBodyConfig, cloudLayerDefinition: CloudLayerDefinition, index: number) {
 		
-		// Draw UI elements to the screen
-		advancedTexture.addControl(labelRect).addControl(line);
+		const name = `${solarBodyConfig.inspectorName}_clouds${index > 0 ? `_${index}` : ''}`;
+		const { procedural } = cloudLayerDefinition;
 		
-		const labelControl = new Control(`labelControl_${planetName}`);
-		labelRect.addControl(labelControl);
-		labelControl.top = `${(rect1Height / 2) - rect1Height}px`;
+		const opacityTexture = procedural
+			? createCloudCoverTexture(`${name}_opacity`, generateCloudCover(procedural), scene)
+			: cloudLayerDefinition.opacityTexture ? this.textures.acquireReference(cloudLayerDefinition.opacityTexture) : null;
 		
-		/*
-		const ref = CreateRef();
-		
-		const canvas = [
-			{
-				type: 'container',
-				label: 'planetLabel',
-				children: [
-					{
-						type: 'rectangle',
-						label: 'textContainer',
-						link: link,
-						children: [
-							{
-								type: 'text',
-								label: 'planetLabelText',
-							},
-						],
-					},
-					{
-						type: 'line',
-						label: 'planetToTextLine',
-						link: link,
-						points: [planet, rectRef]
-					}
-				],
-			}
-		];
-		*/
-		
-		// Link together
-		line.reset();
-		line.add(planetMesh);
-		line.add(labelControl);
-		
-		labelRect.linkWithMesh(planetMesh);
-		labelRect.linkOffsetY = `${linkOffsetY}px`;
+		// Clouds without their texture would be a solid white shell
+		if (!opacityTexture) {
+			return;
+		}
 		
-		this.onTickCallbacks.push(() => {
+		const cloudLayer = new CloudLayer(name, planetMesh, {
+			bodyDiameter: solarBodyConfig.baseConfig.diameter,
+			bodySegments: solarBodyConfig.baseConfig.segments,
+			altitude: cloudLayerDefinition.altitude,
+			// Rotate the cloud cover slowly
+			rotationSpeed: cloudLayerDefinition.rotationSpeed ?? 0.012,
+			opacityTexture,
+			lod: solarBodyConfig.lodConfig,
+			layerMask: 0x10000000,
+		}, scene);
+		
+		const tickHandle = this.tickScheduler.add(() => cloudLayer.update(this.clock.time), {
+			name: `clouds:${cloudLayer.name}`,
+			// Rotation is derived from the clock so nothing is lost while the body is hidden
+			skipWhenHidden: planetMesh,
+		});
+		planetMesh.onDisposeObservable.addOnce(() => {
+			tickHandle.dispose();
 			
-			if (!this.defaultCamera) {
-				return;
+			// Generated textures belong to this layer alone
+			if (procedural) {
+				opacityTexture.dispose();
+			}
+			else {
+				this.textures.release(opacityTexture);
 			}
-			
-			const distance = Vector3.Distance(this.defaultCamera?.position, planetMesh.absolutePosition);
-			
-			const opacityPerc = Renderer.getDistanceRangePercentage(opacityDistanceControl.start, opacityDistanceControl.end, distance);
-			const opacity = 1 - opacityPerc;
-			
-			labelRect.alpha = opacity;
-			line.alpha = opacity;
-			
-			const sizePerc = Renderer.getDistanceRangePercentage(sizeDistanceControl.start, sizeDistanceControl.end, distance);
-			const newSize = new Vector2(
-				rect1Width - (sizePerc * rect1Width),
-				rect1Height - (sizePerc * rect1Height)
-			);
-			
-			labelText.fontSize = fontSize - (sizePerc * fontSize);
-			labelRect.width = `${newSize.x}px`;
-			labelRect.height = `${newSize.y}px`;
-			labelControl.top = `${(newSize.y / 2) - newSize.y}px`;
-			
-			labelRect.linkOffsetY = `${linkOffsetY - (sizePerc * linkOffsetY)}px`;
-			
 		});
 		
 	}
 	
-	initParticles(scene: Scene) {
-		
-		const particleSystem = new ParticleSystem("particles", 2000, scene);
-		particleSystem.particleTexture = new Texture("https://playground.babylonjs.com/textures/flare.png", scene);
-		particleSystem.renderingGroupId = 1;
-		particleSystem.layerMask = 0x10000000;
-		
-		// Where the particles come from
-		particleSystem.emitter = Vector3.Zero(); // the starting location
+	initAtmosphere(scene: Scene, planetMesh: Mesh, solarBodyConfig: SolarBodyConfig, atmosphereDefinition: AtmosphereDefinition) {
+		
+		new AtmosphereGlow(`${solarBodyConfig.inspectorName}_atmosphere`, planetMesh, {
+			bodyDiameter: solarBodyConfig.baseConfig.diameter,
+			bodySegments: solarBodyConfig.baseConfig.segments,
+			altitude: atmosphereDefinition.altitude ?? 0.025,
+			color: Color3.FromHexString(atmosphereDefinition.color),
+			intensity: atmosphereDefinition.intensity ?? 1,
+			power: atmosphereDefinition.power ?? 3,
+			layerMask: solarBodyConfig.layerMask ?? 0x10000000,
+			sun: this.sunLight,
+		}, scene);
+		
+	}
+	
+	/**
+	 * Builds a body's ring system. Rings share the body's layer mask and LOD thresholds and exchange shadows with it.
+	 */
+	initRings(scene: Scene, meshes: {main: Mesh, lods: Mesh[]}, solarBodyConfig: SolarBodyConfig, ringDefinition: RingDefinition) {
+		
+		const name = `${solarBodyConfig.inspectorName}_rings`;
+		const color = ringDefinition.color ? Color3.FromHexString(ringDefinition.color) : Color3.White();
+		const seed = ringDefinition.seed ?? 1;
+		const lodLevels = solarBodyConfig.lodConfig?.levels ?? [];
+		
+		const ringMat = new PBRMaterial(`${name}Mat`, scene);
+		ringMat.metallic = 0.0;
+		ringMat.roughness = 1.0;
+		ringMat.backFaceCulling = false;
+		ringMat.twoSidedLighting = true;
+		
+		let ringMeshes: Mesh[];
+		/** Acquired from the registry, null when the bands are generated */
+		let ringTexture: null | Texture = null;
+		
+		if (ringDefinition.mode === 'particles') {
+			ringMat.albedoColor = color;
+			
+			const rocks = createRingParticles(name, {
+				innerRadius: ringDefinition.innerRadius,
+				outerRadius: ringDefinition.outerRadius,
+				count: ringDefinition.particleCount ?? 2000,
+				particleSize: ringDefinition.particleSize ?? 0.05,
+				thickness: 0.02 * (ringDefinition.outerRadius - ringDefinition.innerRadius),
+				seed,
+			}, scene);
+			
+			// Individual rocks are meaningless once the body is tiny on screen so drop them at the lowest LOD
+			if (lodLevels.length > 0) {
+				rocks.useLODScreenCoverage = solarBodyConfig.lodConfig?.useLODScreenCoverage === true;
+				rocks.addLODLevel(lodLevels[lodLevels.length - 1].level, null);
+			}
+			
+			ringMeshes = [rocks];
+		}
+		else {
+			// A copy as the sampler settings below must not leak into other users of the texture
+			ringTexture = ringDefinition.texture ? this.textures.acquireReference(ringDefinition.texture, { copy: true }) : null;
+			ringMat.albedoTexture = ringTexture || createRingBandTexture(`${name}_bands`, color, seed, scene);
+			ringMat.albedoTexture.hasAlpha = true;
+			ringMat.albedoTexture.wrapU = Texture.CLAMP_ADDRESSMODE;
+			ringMat.useAlphaFromAlbedoTexture = true;
+			ringMat.transparencyMode = PBRMaterial.PBRMATERIAL_ALPHABLEND;
+			
+			// Match the body's tessellation so ring edges look as smooth as the body outline
+			const tessellationPerSegment = 4;
+			const createRing = (ringName: string, segments: number) => createRingMesh(ringName, {
+				innerRadius: ringDefinition.innerRadius,
+				outerRadius: ringDefinition.outerRadius,
+				tessellation: Math.max(12, segments * tessellationPerSegment),
+			}, scene);
+			
+			const ring = createRing(name, solarBodyConfig.baseConfig.segments);
+			ring.useLODScreenCoverage = solarBodyConfig.lodConfig?.useLODScreenCoverage === true;
+			
+			const lodRings = lodLevels.map(lodLevelConfig => {
+				const lodRing = createRing(`${name}_lod_${lodLevelConfig.level}`, lodLevelConfig.segments);
+				lodRing.parent = ring;
+				ring.addLODLevel(lodLevelConfig.level, lodRing);
+				return lodRing;
+			});
+			
+			ringMeshes = [ring, ...lodRings];
+		}
+		
+		ringMat.alpha = ringDefinition.opacity ?? 1;
+		
+		const [mainRingMesh] = ringMeshes;
+		mainRingMesh.parent = meshes.main;
+		mainRingMesh.onDisposeObservable.addOnce(() => this.textures.release(ringTexture));
+		
+		if (ringDefinition.tilt) {
+			mainRingMesh.rotation = Vector3.FromArray(ringDefinition.tilt);
+		}
+		
+		ringMeshes.forEach(ringMesh => {
+			ringMesh.material = ringMat;
+			ringMesh.renderingGroupId = 1;
+			ringMesh.layerMask = solarBodyConfig.layerMask ?? 0x10000000;
+			ringMesh.isPickable = false;
+			ringMesh.receiveShadows = true;
+		});
+		
+		// Rings shadow the body and the body shadows the rings
+		const shadowGenerator = this.getSunShadowGenerator();
+		
+		if (shadowGenerator) {
+			[...ringMeshes, meshes.main, ...meshes.lods].forEach(mesh => {
+				shadowGenerator.addShadowCaster(mesh, false);
+				mesh.receiveShadows = true;
+			});
+		}
+		
+	}
+	
+	/**
+	 * Lazily creates the shadow generator for the sun. Shadows are only needed by a few features so it isn't created up front.
+	 */
+	getSunShadowGenerator() {
+		
+		if (!this.sunLight) {
+			return null;
+		}
+		
+		if (!this.sunShadowGenerator) {
+			const shadowGenerator = new ShadowGenerator(1024, this.sunLight);
+			shadowGenerator.transparencyShadow = true;
+			shadowGenerator.bias = 0.0001;
+			shadowGenerator.usePercentageCloserFiltering = true;
+			this.sunShadowGenerator = shadowGenerator;
+		}
+		
+		return this.sunShadowGenerator;
+	}
+	
+	initStar(allMeshes: Mesh[]) {
+		
+		this.hemiLight1 && (this.hemiLight1.includedOnlyMeshes = allMeshes);
+		this.hemiLight2 && (this.hemiLight2.includedOnlyMeshes = allMeshes);
+		
+		// TODO: Set up occlusion queries
+		// [meshes.main].forEach(mesh => {
+		// 	mesh.occlusionQueryAlgorithmType = AbstractMesh.OCCLUSION_ALGORITHM_TYPE_CONSERVATIVE;
+		// 	mesh.occlusionType = AbstractMesh.OCCLUSION_TYPE_STRICT;
+		// });
+		// this.tickScheduler.add(() => this.renderingPipeline && (this.renderingPipeline.imageProcessing.exposure = meshes.main.isOccluded ? 1 : 0.3), { name: 'starOcclusion', phase: 'post' });
+		
+	}
+	
+	/**
+	 * Creates or removes the star's god rays. Without them the star's texture and the exposure are boosted so the star
+	 * still looks bright.
+	 */
+	setGodRays(enabled: boolean, sampleSize: number) {
+		
+		const camera = this.defaultCamera;
+		const starMesh = this.solarBodies.filter(solarBody => solarBody.type === 'star')[0]?.mesh;
+		
+		if (!camera || !(starMesh instanceof Mesh)) {
+			return;
+		}
+		
+		this.godRays?.dispose(camera);
+		this.godRays = null;
+		
+		if (enabled) {
+			const godRays = new VolumetricLightScatteringPostProcess('GodRays', 1.0, camera, starMesh, sampleSize, Texture.BILINEAR_SAMPLINGMODE, this.engine, false, this.scene);
+			this.godRays = godRays;
+			
+			godRays.exposure = 0.5;
+			godRays.decay = 0.98115;
+			godRays.weight = 0.98767;
+			godRays.density = 0.996;
+			
+			// The volumetric light scattering needs the full mesh at all times to look right
+			const lodLevels = starMesh.getLODLevels().slice();
+			lodLevels.forEach(lodLevel => {
+				// Levels are matched by mesh, which works for levels without one too despite the typing
+				starMesh.removeLODLevel(lodLevel.mesh as Mesh);
+				// No longer part of the LOD, so it would render next to the star
+				lodLevel.mesh?.setEnabled(false);
+			});
+			this.starLodLevels.push(...lodLevels);
+		}
+		else {
+			this.starLodLevels.forEach(lodLevel => {
+				lodLevel.mesh?.setEnabled(true);
+				starMesh.addLODLevel(lodLevel.distanceOrScreenCoverage, lodLevel.mesh);
+			});
+			this.starLodLevels = [];
+		}
+		
+		// The star material's texture is its own copy, see createSolarBodyMaterial
+		if (starMesh.material instanceof StandardMaterial && starMesh.material.diffuseTexture) {
+			starMesh.material.diffuseTexture.level = enabled ? starTextureLevels.godRays : starTextureLevels.noGodRays;
+		}
+		
+		this.renderingPipeline && (this.renderingPipeline.imageProcessing.exposure = 1 + (enabled ? 0 : noGodRaysExposureBoost));
+		
+	}
+	
+	/**
+	 * Changes graphics quality, either to a preset or individual settings on top of the current ones. Takes effect
+	 * immediately and is remembered for the next visit. Individually set settings are locked against the optimizer, a
+	 * preset unlocks them all again.
+	 */
+	setGraphicsSettings(settings: GraphicsPreset | Partial<GraphicsSettings>) {
+		
+		// The pipeline is rebuilt from the new settings, so the optimizer starts over from full quality
+		this.qualityOptimizer?.reset();
+		
+		if (typeof settings === 'string') {
+			this.graphicsSettings = { ...graphicsPresets[settings] };
+			this.lockedGraphicsSettings = [];
+		}
+		else {
+			this.graphicsSettings = { ...this.graphicsSettings, ...settings };
+			(Object.keys(settings) as (keyof GraphicsSettings)[])
+				.filter(key => this.lockedGraphicsSettings.indexOf(key) === -1)
+				.forEach(key => this.lockedGraphicsSettings.push(key));
+		}
+		
+		saveGraphicsSettings(this.graphicsSettings);
+		saveLockedGraphicsSettings(this.lockedGraphicsSettings);
+		this.qualityOptimizer && (this.qualityOptimizer.lockedSettings = this.lockedGraphicsSettings);
+		
+		if (this.initialized) {
+			this.applyGraphicsSettings();
+		}
+		
+		this.settingsPanel?.setSettings(this.graphicsSettings);
+		this.events.emit('graphicsSettingsChanged', { settings: this.graphicsSettings, preset: getGraphicsPreset(this.graphicsSettings) });
+		
+	}
+	
+	/**
+	 * Applies `graphicsSettings` to the running scene, rebuilding the rendering pipeline and the god rays
+	 */
+	applyGraphicsSettings() {
+		
+		const { defaultCamera, exploreCamera, graphicsSettings } = this;
+		
+		if (!defaultCamera || !exploreCamera) {
+			return;
+		}
+		
+		this.applyHardwareScaling();
+		
+		// The god rays were attached to the camera after the pipeline, keep that order
+		this.godRays?.dispose(defaultCamera);
+		this.godRays = null;
+		this.renderingPipeline?.dispose();
+		this.initPost(this.scene, [defaultCamera, exploreCamera]);
+		this.setGodRays(graphicsSettings.godRays, graphicsSettings.godRaySampleSize);
+		
+	}
+	
+	applyHardwareScaling() {
+		this.engine.setHardwareScalingLevel(this.initialDeviceRatio * this.graphicsSettings.resolutionScale * this.optimizerResolutionFactor);
+	}
+	
+	initSettingsPanel() {
+		
+		if (!this.advancedTexture) {
+			return;
+		}
+		
+		this.settingsPanel = new SettingsPanel(this.advancedTexture, this.graphicsSettings, settings => this.setGraphicsSettings(settings));
+		
+	}
+	
+	initGui() {
+		
+		// Create 2D GUI manager
+		const advancedTexture = AdvancedDynamicTexture.CreateFullscreenUI('UI'); // 2D GUI (fullscreen)
+		advancedTexture.layer && (advancedTexture.layer.layerMask = 0x20000000); // Set layerMask to only render on main camera
+		this.advancedTexture = advancedTexture;
+		
+		if (!this.defaultCamera) {
+			return;
+		}
+		
+		// Any body can hide the label of another one behind it
+		const labelLayout = new LabelLayout(this.defaultCamera, this.solarBodies.map(solarBody => solarBody.mesh));
+		this.labelLayout = labelLayout;
+		
+		this.solarBodies.forEach(solarBody => solarBody.labelOpts && this.initPlanetLabel(advancedTexture, labelLayout, solarBody, solarBody.labelOpts));
+		
+		// Labels measure themselves first, then are placed together
+		this.tickScheduler.add(delta => labelLayout.update(delta), { name: 'labelLayout', phase: 'ui' });
+		
+	}
+	
+	initBodyInfoPanel(scene: Scene, solarSystemTransformNode: TransformNode) {
+		
+		if (!this.advancedTexture) {
+			return;
+		}
+		
+		const bodyInfoPanel = new BodyInfoPanel(this.advancedTexture, scene);
+		this.bodyInfoPanel = bodyInfoPanel;
+		
+		const starMesh = this.solarBodies.filter(solarBody => solarBody.type === 'star')[0]?.mesh;
+		
+		this.tickScheduler.add(() => {
+			
+			const focusedPlanet = this.currentlyFocusedPlanet;
+			
+			if (!focusedPlanet || !starMesh || focusedPlanet.type === 'star') {
+				bodyInfoPanel.setDistanceToStar(null);
+				return;
+			}
+			
+			// Report the distance in solar system units regardless of the current galaxy scaling
+			const distance = Vector3.Distance(focusedPlanet.mesh.absolutePosition, starMesh.absolutePosition) / solarSystemTransformNode.scaling.x;
+			bodyInfoPanel.setDistanceToStar(distance);
+			
+		}, { name: 'bodyInfoPanel', phase: 'ui' });
+		
+	}
+	
+	/**
+	 * Restores the view from the URL hash, then keeps the hash in sync with the view so that it can be shared as a link
+	 */
+	initUrlViewState() {
+		
+		if (!this.urlViewStateEnabled) {
+			return;
+		}
+		
+		const restoreFromHash = () => {
+			if (window.location.hash.length > 1) {
+				this.applyViewState(parseViewState(window.location.hash));
+			}
+		};
+		
+		restoreFromHash();
+		this.addDomListener(window, 'hashchange', restoreFromHash);
+		
+		// Browsers rate limit history updates so only write the hash every so often. This also gives the restore above time
+		// to finish before its state gets overwritten.
+		let lastUpdate = performance.now();
+		let lastHash = window.location.hash.replace(/^#/, '');
+		
+		this.tickScheduler.add(() => {
+			
+			const now = performance.now();
+			
+			if (now - lastUpdate < urlViewStateUpdateIntervalMs) {
+				return;
+			}
+			
+			lastUpdate = now;
+			const viewState = this.getViewState();
+			
+			if (!viewState) {
+				return;
+			}
+			
+			const hash = serializeViewState(viewState);
+			
+			if (hash !== lastHash) {
+				lastHash = hash;
+				// replaceState rather than setting location.hash so the view does not spam the history or fire hashchange
+				history.replaceState(history.state, '', `#${hash}`);
+			}
+			
+		}, { name: 'urlViewState', phase: 'post' });
+		
+	}
+	
+	/**
+	 * Snapshot of the current camera, focus and simulation time. Null until the scene is ready.
+	 */
+	getViewState(): null | ViewState {
+		
+		const { defaultCamera: camera, solarSystemTransformNode } = this;
+		
+		if (!camera || !solarSystemTransformNode) {
+			return null;
+		}
+		
+		const inGalaxyMode = !solarSystemTransformNode.scaling.equalsWithEpsilon(Vector3.One(), 0.01);
+		
+		return {
+			body: this.currentlyFocusedPlanet?.definition.inspectorName,
+			alpha: camera.alpha,
+			beta: camera.beta,
+			radius: camera.radius,
+			time: this.clock.time,
+			pivot: inGalaxyMode ? solarSystemTransformNode.getPivotPoint().asArray() as Vector3Tuple : undefined,
+		};
+		
+	}
+	
+	/**
+	 * Jumps straight to a view previously captured with `getViewState`. Missing values keep their current state.
+	 * Resolves with false if the view could not be applied (scene not ready or interrupted).
+	 */
+	async applyViewState(state: Partial<ViewState>): Promise<boolean> {
+		
+		const solarSystemTransformNode = this.solarSystemTransformNode;
+		
+		if (!this.defaultCamera || !solarSystemTransformNode) {
+			return false;
+		}
+		
+		if (state.time !== undefined) {
+			this.clock.setTime(state.time);
+		}
+		
+		const { alpha, beta, radius } = state;
+		const planetMeta = state.body !== undefined ? this.getSolarBody(state.body) : null;
+		
+		const arrived = planetMeta
+			? await this.focusBody(planetMeta, { durationSeconds: 0, alpha, beta, radius })
+			: await this.animateCameraOrbit({ alpha, beta, radius }, 0);
+		
+		if (arrived && state.pivot) {
+			solarSystemTransformNode.setPivotPoint(Vector3.FromArray(state.pivot));
+		}
+		
+		return arrived;
+		
+	}
+	
+	initTourPlayer(scene: Scene) {
+		
+		if (!this.advancedTexture) {
+			return;
+		}
+		
+		this.tourPlayer = new TourPlayer(this, this.advancedTexture, scene);
+		
+	}
+	
+	/**
+	 * Loads and validates a tour, then plays it once the scene is ready. Rejects with a `TourDefinitionError` if the tour is
+	 * malformed or references bodies that are not part of the current solar system.
+	 */
+	async playTour(source: TourSource): Promise<TourDefinition> {
+		
+		const tour = await this.loadTourDefinition(source);
+		
+		await this.ready;
+		
+		tour.waypoints.forEach((waypoint, i) => {
+			if (waypoint.body !== undefined && !this.getSolarBody(waypoint.body)) {
+				throw new TourDefinitionError(`$.waypoints[${i}].body`, `unknown body "${waypoint.body}"`);
+			}
+		});
+		
+		if (!this.tourPlayer) {
+			throw new Error('Tours require the GUI to be initialized');
+		}
+		
+		this.tourPlayer.play(tour);
+		
+		return tour;
+	}
+	
+	stopTour() {
+		this.tourPlayer?.stop();
+	}
+	
+	async loadTourDefinition(source: TourSource): Promise<TourDefinition> {
+		
+		if (typeof source !== 'string') {
+			return parseTourDefinition(source);
+		}
+		
+		const url = (new URL(source, window.location.href)).href;
+		const response = await fetch(url);
+		
+		if (!response.ok) {
+			throw new Error(`Unable to load tour from ${url}: ${response.status} ${response.statusText}`);
+		}
+		
+		return parseTourDefinition(await response.json());
+		
+	}
+	
+	/**
+	 * Updates which body the camera follows and the UI describing it
+	 */
+	setFocusedPlanet(planetMeta: PlanetMeta) {
+		
+		const previous = this.currentlyFocusedPlanet;
+		this.currentlyFocusedPlanet = planetMeta;
+		
+		this.bodyInfoPanel?.show({
+			name: planetMeta.name,
+			type: planetMeta.type,
+			diameter: planetMeta.definition.diameter,
+			orbitalPeriod: planetMeta.orbit?.period ?? null,
+			description: planetMeta.definition.description,
+		});
+		
+		if (previous !== planetMeta) {
+			this.events.emit('bodyFocused', { body: planetMeta, previous });
+		}
+		
+	}
+	
+	/**
+	 * Label style of a body: the defaults, adjusted for stars, overridden by the body's definition. Null when the body
+	 * should not have a label. Icons that failed to load are left out.
+	 */
+	getPlanetLabelOpts(bodyDefinition: SolarBodyDefinition, definition: SolarSystemDefinition): null | PlanetLabelOpts {
+		
+		const label = bodyDefinition.label ?? {};
+		
+		if (label.visible === false) {
+			return null;
+		}
+		
+		const typeOpts = bodyDefinition.type === 'star' ? starLabelOpts : {};
+		
+		return {
+			...defaultPlanetLabelOpts,
+			...typeOpts,
+			fontSize: label.fontSize ?? typeOpts.fontSize ?? defaultPlanetLabelOpts.fontSize,
+			color: label.color ?? defaultPlanetLabelOpts.color,
+			fontFamily: label.fontFamily ?? defaultPlanetLabelOpts.fontFamily,
+			iconUrl: label.icon && this.textures.has(label.icon.texture) ? resolveTextureUrl(definition.textures, label.icon.texture) : null,
+			subtitle: label.subtitle ?? null,
+			clickable: label.clickable ?? defaultPlanetLabelOpts.clickable,
+		};
+	}
+	
+	initPlanetLabel(advancedTexture: AdvancedDynamicTexture, labelLayout: LabelLayout, planetMeta: PlanetMeta, opts?: Partial<PlanetLabelOpts>) {
+		
+		const { mesh: planetMesh, name: planetName } = planetMeta;
+		const { fontSize, rect1Width, rect1Height, linkOffsetY, opacityDistanceControl, sizeDistanceControl, color, fontFamily, iconUrl, subtitle, clickable } = { ...defaultPlanetLabelOpts, ...opts };
+		
+		// The box grows to make room for the subtitle below and the icon in front of the name
+		const labelWidth = rect1Width + (iconUrl ? rect1Height : 0);
+		const labelHeight = rect1Height * (subtitle ? 1.6 : 1);
+		const iconSize = rect1Height * 0.7;
+		
+		// Recomputed every frame from the camera distance, read by the reactive props below
+		let sizePerc = 0;
+		let subtitleText = '';
+		const scaled = (value: number) => value - (sizePerc * value);
+		
+		const layoutLabel: LayoutLabel = labelLayout.add({
+			mesh: planetMesh,
+			width: labelWidth,
+			height: labelHeight,
+			offsetY: linkOffsetY,
+			priority: 0,
+			opacity: 1,
+			layoutOffsetY: linkOffsetY,
+			visibility: 0,
+		});
+		const getAlpha = () => layoutLabel.opacity * layoutLabel.visibility;
+		
+		const anchorRef = UI.CreateRef<Container>();
+		
+		const labelChildren: UITypes.Control[] = [
+			{
+				type: UITypes.ControlType.Text,
+				label: `planetText_${planetName}`,
+				props: {
+					text: planetName,
+					color,
+					fontFamily,
+					fontSize: () => scaled(fontSize),
+					height: subtitle ? '60%' : '100%',
+					verticalAlignment: Control.VERTICAL_ALIGNMENT_TOP,
+					paddingLeft: () => `${iconUrl ? scaled(iconSize) : 0}px`,
+				},
+			},
+			{
+				// Top edge of the rectangle, where the line ends
+				type: UITypes.ControlType.Container,
+				label: `labelControl_${planetName}`,
+				ref: anchorRef,
+				props: {
+					top: () => `${-scaled(labelHeight) / 2}px`,
+				},
+			},
+		];
+		
+		if (subtitle) {
+			labelChildren.push({
+				type: UITypes.ControlType.Text,
+				label: `planetSubtitle_${planetName}`,
+				props: {
+					text: () => subtitleText,
+					color,
+					fontFamily,
+					fontSize: () => scaled(fontSize * 0.6),
+					height: '40%',
+					verticalAlignment: Control.VERTICAL_ALIGNMENT_BOTTOM,
+					paddingLeft: () => `${iconUrl ? scaled(iconSize) : 0}px`,
+				},
+			});
+		}
+		
+		if (iconUrl) {
+			labelChildren.push({
+				type: UITypes.ControlType.Image,
+				label: `planetIcon_${planetName}`,
+				url: iconUrl,
+				props: {
+					width: () => `${scaled(iconSize)}px`,
+					height: () => `${scaled(iconSize)}px`,
+					horizontalAlignment: Control.HORIZONTAL_ALIGNMENT_LEFT,
+					left: () => `${scaled(rect1Height - iconSize) / 2}px`,
+				},
+			});
+		}
+		
+		const labelProps: UITypes.ControlProps<Rectangle> = {
+			alpha: getAlpha,
+			// Also keeps faded out labels from catching clicks
+			isVisible: () => getAlpha() > 0,
+			width: () => `${scaled(labelWidth)}px`,
+			height: () => `${scaled(labelHeight)}px`,
+			linkOffsetY: () => `${layoutLabel.layoutOffsetY}px`,
+		};
+		
+		const labelRoot: UITypes.Control = clickable ? {
+			type: UITypes.ControlType.Button,
+			label: `labelRect_${planetName}`,
+			link: planetMesh,
+			children: labelChildren,
+			onClick: () => this.focusBody(planetMeta),
+			props: { ...labelProps, hoverCursor: 'pointer' },
+		} : {
+			type: UITypes.ControlType.Rectangle,
+			label: `labelRect_${planetName}`,
+			link: planetMesh,
+			children: labelChildren,
+			props: labelProps,
+		};
+		
+		const canvas = UI.CreateCanvas(advancedTexture, [
+			labelRoot,
+			{
+				type: UITypes.ControlType.Line,
+				label: `line_${planetName}`,
+				points: [planetMesh, anchorRef],
+				props: {
+					alpha: getAlpha,
+					isVisible: () => getAlpha() > 0,
+					lineWidth: 3,
+					color,
+					zIndex: 1,
+				},
+			},
+		]);
+		
+		const starMesh = this.solarBodies.filter(solarBody => solarBody.type === 'star')[0]?.mesh;
+		
+		this.tickScheduler.add(() => {
+			
+			if (!this.defaultCamera) {
+				return;
+			}
+			
+			const distance = Vector3.Distance(this.defaultCamera.position, planetMesh.absolutePosition);
+			
+			sizePerc = Renderer.getDistanceRangePercentage(sizeDistanceControl.start, sizeDistanceControl.end, distance);
+			
+			layoutLabel.opacity = 1 - Renderer.getDistanceRangePercentage(opacityDistanceControl.start, opacityDistanceControl.end, distance);
+			layoutLabel.width = scaled(labelWidth);
+			layoutLabel.height = scaled(labelHeight);
+			layoutLabel.offsetY = scaled(linkOffsetY);
+			// The focused body's label always keeps its place, others make room for it
+			layoutLabel.priority = this.currentlyFocusedPlanet === planetMeta ? 1 : 0;
+			
+			subtitleText = subtitle ? this.getLabelSubtitle(planetMeta, subtitle, starMesh) : '';
+			
+		}, {
+			name: `label:${planetName}`,
+			phase: 'ui',
+			// Only the measurements pause, the layout keeps placing the label with the last ones
+			skipWhenHidden: planetMesh,
+		});
+		
+		layoutLabel.onLayout = () => canvas.update();
+		
+	}
+	
+	getLabelSubtitle(planetMeta: PlanetMeta, subtitle: LabelSubtitle, starMesh?: AbstractMesh): string {
+		switch (subtitle) {
+			case 'distance': {
+				if (!starMesh || !this.solarSystemTransformNode || planetMeta.type === 'star') {
+					return '';
+				}
+				
+				// Solar system units regardless of the current galaxy scaling, like the info panel
+				const distance = Vector3.Distance(planetMeta.mesh.absolutePosition, starMesh.absolutePosition) / this.solarSystemTransformNode.scaling.x;
+				return `${BodyInfoPanel.formatNumber(distance)} units`;
+			}
+			case 'orbitalPeriod':
+				return planetMeta.orbit ? `Orbit ${BodyInfoPanel.formatDuration(planetMeta.orbit.period)}` : '';
+			case 'type':
+				return planetMeta.type.toUpperCase();
+		}
+	}
+	
+	initParticles(scene: Scene) {
+		
+		const sunMesh = this.solarBodies.filter(solarBody => solarBody.type === 'star')[0].mesh;
+		
+		const localSystemSingleParticle = new ParticleSystem("particles2", 2, scene);
+		localSystemSingleParticle.particleTexture = this.textures.acquire('particle_flare');
+		
+		// Where the particles come from
+		localSystemSingleParticle.emitter = sunMesh; // the starting location
 		
 		// Colors of all particles
-		particleSystem.color1 = new Color4(0.7, 0.8, 1.0, 1.0);
-		particleSystem.color2 = new Color4(0.2, 0.5, 1.0, 1.0);
-		particleSystem.colorDead = new Color4(0, 0, 0.2, 0.0);
+		localSystemSingleParticle.color1 = Color3.FromHexString('#0f5fff').toColor4();
+		localSystemSingleParticle.color2 = Color3.FromHexString('#0f5fff').toColor4();
+		localSystemSingleParticle.colorDead = Color3.FromHexString('#0f5fff').toColor4(); // new Color4(0, 0, 0.2, 0.0);
 		
 		// Size of each particle (random between...
-		particleSystem.minSize = 1;
-		particleSystem.maxSize = 5;
+		localSystemSingleParticle.minSize = 6;
+		localSystemSingleParticle.maxSize = 6;
 		
 		// Life time of each particle (random between...
-		particleSystem.minLifeTime = 1000;
-		particleSystem.maxLifeTime = 10000;
+		localSystemSingleParticle.minLifeTime = 0.008;
+		localSystemSingleParticle.maxLifeTime = 0.008;
 		
 		// Emission rate
-		particleSystem.emitRate = 100;
-		particleSystem.preWarmStepOffset = 100;
-		particleSystem.preWarmCycles = 1000;
+		localSystemSingleParticle.emitRate = 110;
+		// particleSystem.preWarmStepOffset = 100;
+		// particleSystem.preWarmCycles = 1000;
+		
+		/******* Emission Space ********/
+		var sphereEmitter = localSystemSingleParticle.createSphereEmitter(0.1);
+		sphereEmitter.radiusRange = 0;
+		
+		// Speed
+		localSystemSingleParticle.minEmitPower = 0;
+		localSystemSingleParticle.maxEmitPower = 0;
+		localSystemSingleParticle.updateSpeed = 0.005;
+		
+		// Start the particle system
+		localSystemSingleParticle.start();
+		this.particleSystems.push(localSystemSingleParticle);
+		
+	}
+	
+	/**
+	 * Surrounds the solar system with the procedural galaxy. Background stars and the markers of visitable star systems
+	 * are thin instances of one mesh each, so the whole galaxy costs two draw calls.
+	 */
+	initGalaxy(scene: Scene, solarSystemTransformNode: TransformNode, definition: SolarSystemDefinition) {
+		
+		const galaxy = getDefaultGalaxy();
+		const currentStarSystem = galaxy.systems[definition.starSystemId ?? 0] ?? galaxy.systems[0];
+		this.galaxy = galaxy;
+		this.currentStarSystem = currentStarSystem;
+		
+		// Part of the solar system so zooming out shrinks both together, with the current star system at the origin
+		const galaxyTransformNode = new TransformNode('galaxy', scene);
+		galaxyTransformNode.parent = solarSystemTransformNode;
+		galaxyTransformNode.scaling.setAll(galaxyUnitScale);
+		galaxyTransformNode.position = Vector3.FromArray(currentStarSystem.position).scaleInPlace(-galaxyUnitScale);
+		
+		// Instance colours multiply the unlit white
+		const starMaterial = new StandardMaterial('galaxyStarMat', scene);
+		starMaterial.emissiveColor = Color3.White();
+		starMaterial.disableLighting = true;
+		
+		const createInstancedStarMesh = (name: string, positions: Vector3Tuple[], sizes: number[], colors: Float32Array) => {
+			const mesh = MeshBuilder.CreateIcoSphere(name, { radius: 0.5, subdivisions: 1 }, scene);
+			mesh.parent = galaxyTransformNode;
+			mesh.material = starMaterial;
+			mesh.isPickable = false;
+			mesh.renderingGroupId = 1;
+			mesh.layerMask = 0x10000000;
+			
+			const matrices = new Float32Array(positions.length * 16);
+			const matrix = new Matrix();
+			positions.forEach((position, i) => {
+				Matrix.ScalingToRef(sizes[i], sizes[i], sizes[i], matrix);
+				matrix.setTranslationFromFloats(position[0], position[1], position[2]);
+				matrix.copyToArray(matrices, i * 16);
+			});
+			
+			mesh.thinInstanceSetBuffer('matrix', matrices, 16, true);
+			mesh.thinInstanceSetBuffer('color', colors, 4, true);
+			return mesh;
+		};
+		
+		const { stars } = galaxy;
+		const starPositions: Vector3Tuple[] = [];
+		for (let i = 0; i < stars.count; i++) {
+			starPositions.push([stars.positions[i * 3], stars.positions[(i * 3) + 1], stars.positions[(i * 3) + 2]]);
+		}
+		createInstancedStarMesh('galaxyStars', starPositions, Array.from(stars.sizes), stars.colors);
+		
+		// The current star system is the solar system itself
+		const starSystemInstances = galaxy.systems.filter(system => system !== currentStarSystem);
+		const starSystemColors = new Float32Array(starSystemInstances.length * 4);
+		starSystemInstances.forEach((system, i) => Color3.FromHexString(system.color).toColor4().toArray(starSystemColors, i * 4));
+		
+		const starSystemsMesh = createInstancedStarMesh(
+			'galaxyStarSystems',
+			starSystemInstances.map(system => system.position),
+			starSystemInstances.map(() => starSystemMarkerSize),
+			starSystemColors,
+		);
+		starSystemsMesh.isPickable = true;
+		starSystemsMesh.thinInstanceEnablePicking = true;
+		
+		this.starSystemsMesh = starSystemsMesh;
+		this.starSystemInstances = starSystemInstances;
+		
+	}
+	
+	/**
+	 * All star systems of the galaxy, including the current one
+	 */
+	getStarSystems(): GalaxyStarSystem[] {
+		return this.galaxy ? this.galaxy.systems : [];
+	}
+	
+	/**
+	 * Announces that another star system should be visited. A renderer shows a single solar system, so the host
+	 * application is expected to replace it with one for the event's definition.
+	 */
+	selectStarSystem(system: number | GalaxyStarSystem) {
+		const systemId = typeof system === 'number' ? system : system.id;
+		const starSystem = this.getStarSystems()[systemId];
 		
-		/******* Emission Space ********/
-		var sphereEmitter = particleSystem.createSphereEmitter(1200);
-		sphereEmitter.radiusRange = 0.2;
+		if (!starSystem) {
+			throw new Error(`Unknown star system ${systemId}`);
+		}
 		
-		// Speed
-		particleSystem.minEmitPower = 0;
-		particleSystem.maxEmitPower = 0;
-		particleSystem.updateSpeed = 0.005;
+		this.events.emit('starSystemSelected', { system: starSystem, definition: getStarSystemDefinition(systemId) });
+	}
+	
+	/**
+	 * Draws each orbiting body's orbit ellipse and motion trail in the body's highlight colour
+	 */
+	initOrbitVisuals(scene: Scene) {
 		
-		// Start the particle system
-		particleSystem.start();
+		const sunMesh = this.solarBodies.filter(solarBody => solarBody.type === 'star')[0]?.mesh;
 		
-		{
-			
-			const sunMesh = this.solarBodies.filter(solarBody => solarBody.type === 'star')[0].mesh;
-			
-			const localSystemSingleParticle = new ParticleSystem("particles2", 2, scene);
-			localSystemSingleParticle.particleTexture = particleSystem.particleTexture;
-			
-			// Where the particles come from
-			localSystemSingleParticle.emitter = sunMesh; // the starting location
-			
-			// Colors of all particles
-			localSystemSingleParticle.color1 = Color3.FromHexString('#0f5fff').toColor4();
-			localSystemSingleParticle.color2 = Color3.FromHexString('#0f5fff').toColor4();
-			localSystemSingleParticle.colorDead = Color3.FromHexString('#0f5fff').toColor4(); // new Color4(0, 0, 0.2, 0.0);
-			
-			// Size of each particle (random between...
-			localSystemSingleParticle.minSize = 6;
-			localSystemSingleParticle.maxSize = 6;
-			
-			// Life time of each particle (random between...
-			localSystemSingleParticle.minLifeTime = 0.008;
-			localSystemSingleParticle.maxLifeTime = 0.008;
-			
-			// Emission rate
-			localSystemSingleParticle.emitRate = 110;
-			// particleSystem.preWarmStepOffset = 100;
-			// particleSystem.preWarmCycles = 1000;
+		this.solarBodies.forEach(planetMeta => {
+			const { orbit, parent } = planetMeta;
 			
-			/******* Emission Space ********/
-			var sphereEmitter = localSystemSingleParticle.createSphereEmitter(0.1);
-			sphereEmitter.radiusRange = 0;
-			
-			// Speed
-			localSystemSingleParticle.minEmitPower = 0;
-			localSystemSingleParticle.maxEmitPower = 0;
-			localSystemSingleParticle.updateSpeed = 0.005;
-			
-			// Start the particle system
-			localSystemSingleParticle.start();
+			if (!orbit) {
+				return;
+			}
 			
-		}
+			// Highlight colours are deliberately dim, so brighten them while keeping the hue
+			const highlightColor = planetMeta.definition.highlightColor ? Color3.FromHexString(planetMeta.definition.highlightColor) : Color3.White();
+			const maxChannel = Math.max(highlightColor.r, highlightColor.g, highlightColor.b);
+			const color = maxChannel > 0 ? highlightColor.scale(1 / maxChannel) : highlightColor;
+			
+			const orbitVisual = new OrbitVisual(planetMeta.definition.inspectorName, orbit, {
+				color,
+				parent: planetMeta.mesh.parent,
+				center: (parent?.type === 'star' && sunMesh) ? sunMesh.position : Vector3.Zero(),
+				layerMask: 0x20000000, // Main camera only, the explore camera is too close for these to be useful
+				pathSegments: 256,
+				trailLength: 0.1,
+				trailSegments: 48,
+			}, scene);
+			
+			orbitVisual.setPathVisible(this.orbitPathsVisible);
+			orbitVisual.setTrailVisible(this.orbitTrailsVisible);
+			this.orbitVisuals.push(orbitVisual);
+		});
 		
+		this.orbitVisuals.forEach(orbitVisual => this.tickScheduler.add(() => orbitVisual.update(this.clock.time), {
+			name: `orbit:${orbitVisual.name}`,
+			skipWhenHidden: orbitVisual.visibilityTarget,
+		}));
+		
+	}
+	
+	setOrbitPathsVisible(visible: boolean) {
+		this.orbitPathsVisible = visible;
+		this.orbitVisuals.forEach(orbitVisual => orbitVisual.setPathVisible(visible));
+	}
+	
+	setOrbitTrailsVisible(visible: boolean) {
+		this.orbitTrailsVisible = visible;
+		this.orbitVisuals.forEach(orbitVisual => orbitVisual.setTrailVisible(visible));
 	}
 	
 	/**
@@ -982,11 +1986,6 @@ export class Renderer {
 		// const easingFunction = new CircleEase();
 		// easingFunction.setEasingMode(EasingFunction.EASINGMODE_EASEIN);
 		
-		const scaleDistanceControl = {
-			start: 100,
-			end: 400,
-		};
-		
 		const scaleAmount = {
 			max: 1,
 			min: 0.01,
@@ -995,10 +1994,11 @@ export class Renderer {
 		const scaleVector = Vector3.One();
 		
 		let exploreCameraVisible = true;
+		let inGalaxyMode = false;
 		
-		this.onTickCallbacks.push(() => {
+		this.tickScheduler.add(() => {
 			
-			const linearScalePerc = Renderer.getDistanceRangePercentage(scaleDistanceControl.start, scaleDistanceControl.end, camera.radius);
+			const linearScalePerc = Renderer.getDistanceRangePercentage(galaxyScaleDistance.start, galaxyScaleDistance.end, camera.radius);
 			const gradientScalePerc = easingFunction.ease(linearScalePerc);
 			
 			const newSolarSystemScale = scaleAmount.max - (gradientScalePerc * scaleRange);
@@ -1006,6 +2006,15 @@ export class Renderer {
 			
 			solarSystemTransformNode.scaling = scaleVector;
 			
+			if (inGalaxyMode !== !scaleVector.equalsWithEpsilon(Vector3.One(), 0.01)) {
+				inGalaxyMode = !inGalaxyMode;
+				this.events.emit(inGalaxyMode ? 'galaxyModeEntered' : 'galaxyModeExited', { scale: newSolarSystemScale });
+			}
+			
+			// Orbits collapse into a smudge at galaxy scale so fade them out well before the system is fully shrunk
+			const orbitFade = 1 - MathUtils.clamp(linearScalePerc * 2, 0, 1);
+			this.orbitVisuals.forEach(orbitVisual => orbitVisual.setFade(orbitFade));
+			
 			if (this.exploreCamera) {
 				if (solarSystemTransformNode.scaling.equalsWithEpsilon(Vector3.One(), 0.001)) {
 					if (!exploreCameraVisible) {
@@ -1013,205 +2022,241 @@ export class Renderer {
 						exploreCameraVisible = true;
 						const {x, y, w, h} = this.exploreCameraViewport;
 						this.exploreCamera.viewport = new Viewport(x, y, w, h);
+						this.events.emit('explorePipToggled', { visible: true });
 					}
 				}
 				else if (exploreCameraVisible) {
 					console.log('Toggling explore camera off');
 					exploreCameraVisible = false;
 					this.exploreCamera.viewport = new Viewport(0, 0, 0.01, 0.01);
+					this.events.emit('explorePipToggled', { visible: false });
 				}
 			}
 			
-		});
+		}, { name: 'galaxyScaling', phase: 'camera' });
 	}
 	
+	/**
+	 * Moves every orbiting body along its Keplerian orbit. Positions are a pure function of the simulation clock's time.
+	 */
 	registerPlanetOrbitRotation() {
 		
 		const sunMesh = this.solarBodies.filter(solarBody => solarBody.type === 'star')[0]?.mesh;
+		const orbitingBodies = this.solarBodies.filter(solarBody => solarBody.orbit !== null);
 		
-		this.solarBodies.filter(solarBody => solarBody.type === 'planet').forEach(planetMeta => {
-			
-			const { mesh: planetMesh } = planetMeta;
-			
-			// How fast the rotation will be
-			const distanceToSun = Vector3.Distance(planetMesh.position, (sunMesh.parent as PointLight).position);
-			const fullOrbitsPerSecond = 0.1 * (1 / distanceToSun);
-			
-			// Initial calculations to get the sin and cos
-			const distanceVector = planetMesh.position.subtract(sunMesh.position);
-			const distanceVectorLength = distanceVector.length();
-			const currentDirectionVector = distanceVector.normalizeToNew();
-			let currentCosPi = Math.acos(currentDirectionVector.x);
-			let currentSinPi = Math.asin(currentDirectionVector.z);
-			let currentTiltPi = Math.asin(currentDirectionVector.y);
-			
-			this.onTickCallbacks.push((_delta, animationRatio) => {
-				
-				const piStep = ((Math.PI * 2) / 60) * fullOrbitsPerSecond;
+		const updatePositions = () => {
+			orbitingBodies.forEach(planetMeta => {
+				const { mesh: planetMesh, orbit, parent } = planetMeta;
 				
-				// Prep
-				// const animationRatio = scene.getAnimationRatio();
-				const animationPiStep = piStep * animationRatio;
-				
-				// x cos
-				const newCosPi = currentCosPi + animationPiStep;
-				const newCos = Math.cos(newCosPi);
-				
-				// z sin
-				const newSinPi = currentSinPi + animationPiStep;
-				const newSin = Math.sin(newSinPi);
-				
-				// y sin
-				const newTiltPi = currentTiltPi + animationPiStep;
-				const newTilt = Math.sin(newTiltPi);
-				
-				// Update planet position based on new position on the circle (sin & cos)
-				planetMesh.position.x = (newCos * distanceVectorLength) + sunMesh.position.x;
-				planetMesh.position.y = (newTilt * distanceVectorLength) + sunMesh.position.y;
-				planetMesh.position.z = (newSin * distanceVectorLength) + sunMesh.position.z;
+				if (!orbit) {
+					return;
+				}
 				
-				// Save values for next tick
-				currentCosPi = newCosPi;
-				currentSinPi = newSinPi;
-				currentTiltPi = newTiltPi;
+				getOrbitalPosition(orbit, this.clock.time, planetMesh.position);
 				
+				// Bodies orbiting the star share its parent's space, satellites of other bodies are positioned in their parent's local space
+				if (parent?.type === 'star') {
+					planetMesh.position.addInPlace(sunMesh.position);
+				}
 			});
-			
-		});
+		};
+		
+		// Place bodies at their epoch positions before the first frame
+		updatePositions();
+		
+		this.tickScheduler.add(updatePositions, { name: 'orbitPositions' });
+		
+	}
+	
+	/**
+	 * The optimization steps policies can refer to by name. Each one checks whether there is anything left to lower, as
+	 * the user may have turned the effect off already.
+	 */
+	createOptimizationSteps(): Record<OptimizationStepName, OptimizationStep> {
+		
+		const pipeline = () => this.renderingPipeline;
+		
+		return {
+			reduceResolution: {
+				name: 'reduceResolution',
+				description: 'Reduce resolution - first pass',
+				lockedBy: ['resolutionScale'],
+				apply: () => {
+					this.optimizerResolutionFactor *= 1.5;
+					this.applyHardwareScaling();
+					return true;
+				},
+				revert: () => {
+					this.optimizerResolutionFactor /= 1.5;
+					this.applyHardwareScaling();
+				},
+			},
+			// Together with the first pass this halves the resolution
+			halveResolution: {
+				name: 'halveResolution',
+				description: 'Reduce resolution - second pass',
+				lockedBy: ['resolutionScale'],
+				apply: () => {
+					this.optimizerResolutionFactor *= 4 / 3;
+					this.applyHardwareScaling();
+					return true;
+				},
+				revert: () => {
+					this.optimizerResolutionFactor /= 4 / 3;
+					this.applyHardwareScaling();
+				},
+			},
+			godRays: {
+				name: 'godRays',
+				description: 'Disabling volumetric lighting',
+				lockedBy: ['godRays', 'godRaySampleSize'],
+				apply: () => {
+					if (!this.godRays) {
+						return false;
+					}
+					// Boosts the star and the exposure instead
+					this.setGodRays(false, 0);
+					return true;
+				},
+				revert: () => this.setGodRays(this.graphicsSettings.godRays, this.graphicsSettings.godRaySampleSize),
+			},
+			bloom: {
+				name: 'bloom',
+				description: 'Disabling bloom and chromatic aberration',
+				lockedBy: ['bloom', 'chromaticAberration'],
+				apply: () => {
+					const defaultPipe = pipeline();
+					if (!defaultPipe || (!defaultPipe.bloomEnabled && !defaultPipe.chromaticAberrationEnabled)) {
+						return false;
+					}
+					defaultPipe.bloomEnabled = false;
+					defaultPipe.chromaticAberrationEnabled = false;
+					return true;
+				},
+				revert: () => {
+					const defaultPipe = pipeline();
+					if (defaultPipe) {
+						defaultPipe.bloomEnabled = this.graphicsSettings.bloom;
+						defaultPipe.chromaticAberrationEnabled = this.graphicsSettings.chromaticAberration;
+					}
+				},
+			},
+			antiAliasing: {
+				name: 'antiAliasing',
+				description: 'Disabling anti aliasing',
+				lockedBy: ['fxaa'],
+				apply: () => {
+					const defaultPipe = pipeline();
+					if (!defaultPipe || !defaultPipe.fxaaEnabled) {
+						return false;
+					}
+					defaultPipe.fxaaEnabled = false;
+					return true;
+				},
+				revert: () => {
+					const defaultPipe = pipeline();
+					defaultPipe && (defaultPipe.fxaaEnabled = this.graphicsSettings.fxaa);
+				},
+			},
+			// Turns off everything rendered to textures first, god rays and glow included
+			renderTargets: {
+				name: 'renderTargets',
+				description: 'Disabling render targets',
+				lockedBy: ['godRays', 'glow'],
+				apply: () => {
+					if (!this.scene.renderTargetsEnabled) {
+						return false;
+					}
+					this.scene.renderTargetsEnabled = false;
+					return true;
+				},
+				revert: () => this.scene.renderTargetsEnabled = true,
+			},
+			// Scaling textures down loses their detail for good, so this step cannot be reverted
+			textures: {
+				name: 'textures',
+				description: 'Reducing texture size',
+				apply: () => {
+					const maximumSize = 512;
+					let scaled = false;
+					this.scene.textures.forEach(texture => {
+						// Dynamic textures (e.g. the GUI) are drawn at their size every frame
+						if (!texture.canRescale || texture instanceof DynamicTexture) {
+							return;
+						}
+						let size = texture.getSize();
+						while (Math.max(size.width, size.height) > maximumSize) {
+							texture.scale(0.5);
+							size = texture.getSize();
+							scaled = true;
+						}
+					});
+					return scaled;
+				},
+			},
+		};
 		
 	}
 	
-	autoOptimizeScene(scene: Scene, camera: ArcRotateCamera) {
+	initQualityOptimizer() {
 		
-		const targetFps = 50;
-		const optimizationStartDelayMs = 1500;
-		/** Amount of time to wait between optimization passes */
-		const trackerDuration = 1000;
-		const verboseLogging: boolean = true;
+		this.qualityOptimizer = this.createQualityOptimizer();
 		
-		const options: SceneOptimizerOptions = SceneOptimizerOptions.ModerateDegradationAllowed(targetFps);
-		options.trackerDuration = trackerDuration;
+		// Frame durations include everything but the time spent paused
+		this.tickScheduler.add(delta => this.qualityOptimizer?.update(delta), { name: 'qualityOptimizer', phase: 'post' });
 		
-		const numberOfCustomOptimizations = 5;
-		let currentCustomOptimizationI = 0;
+	}
+	
+	createQualityOptimizer() {
 		
-		options.optimizations = options.optimizations
-			.filter(o => (
-				false
-				// o instanceof PostProcessesOptimization
-				|| o instanceof TextureOptimization
-				|| o instanceof RenderTargetsOptimization
-				|| o instanceof HardwareScalingOptimization
-			)).map((o, i) => {
-				o.priority = i + numberOfCustomOptimizations;
-				return o;
-			});
+		const builtInSteps = this.createOptimizationSteps();
+		const policy = this.optimizationPolicy;
+		const steps = policy.steps.map(step => typeof step === 'string' ? builtInSteps[step] : step);
 		
-		// Roughly tweak hardware scaling - first pass
-		options.addCustomOptimization(
-			() => {
-				this.engine.setHardwareScalingLevel(this.initialDeviceRatio * 1.5);
-				return true;
-			},
-			() => 'Reduce resolution - first pass',
-			currentCustomOptimizationI++
-		);
+		const qualityOptimizer = new QualityOptimizer(policy, steps, this.lockedGraphicsSettings);
 		
-		// Roughly tweak hardware scaling - second pass
-		options.addCustomOptimization(
-			() => {
-				this.engine.setHardwareScalingLevel(this.initialDeviceRatio * 2);
-				return true;
-			},
-			() => 'Reduce resolution - second pass',
-			currentCustomOptimizationI++
-		);
+		qualityOptimizer.onLevelChangedObservable.add(({ level, step, direction, fps }) => this.events.emit('optimizerLevelChanged', {
+			level,
+			step: step.name,
+			description: step.description,
+			direction,
+			fps,
+		}));
 		
-		// Disable volumetric lighting and boost star material
-		options.addCustomOptimization(
-			() => {
-				// Disable volumetric post processing
-				this.godRays?.dispose(camera);
-				
-				// Boost solar body
-				this.solarBodies
-					.filter(solarBody => solarBody.type === 'star')
-					.forEach(star => {
-						if (star.mesh.material instanceof StandardMaterial) {
-							star.mesh.material.diffuseTexture && (star.mesh.material.diffuseTexture.level = 10);
-						}
-					});
-				
-				// Slightly increase exposure
-				const exposureTweakAmount = 0.170; // On desktop this looks very similar: 0.170
-				this.renderingPipeline && (this.renderingPipeline.imageProcessing.exposure += exposureTweakAmount);
-				
-				return true;
-			},
-			() => 'Disabling volumetric lighting',
-			currentCustomOptimizationI++
-		);
+		return qualityOptimizer;
 		
-		// Disable some postprocessing
-		options.addCustomOptimization(
-			() => {
-				if (this.renderingPipeline) {
-					this.renderingPipeline.bloomEnabled = false;
-					this.renderingPipeline.chromaticAberrationEnabled = false;
-				}
-				return true;
-			},
-			() => 'Disabling bloom and chromatic aberration',
-			currentCustomOptimizationI++
-		);
+	}
+	
+	/**
+	 * Replaces the optimization policy, either one of `optimizationPolicies` or a custom one. Quality goes back to the
+	 * graphics settings and the new policy starts measuring from scratch.
+	 */
+	setOptimizationPolicy(policy: OptimizationPolicyName | OptimizationPolicy) {
 		
-		// Disable some more postprocessing
-		options.addCustomOptimization(
-			() => {
-				if (this.renderingPipeline) {
-					this.renderingPipeline.fxaaEnabled = false;
-				}
-				return true;
-			},
-			() => 'Disabling anti aliasing',
-			currentCustomOptimizationI++
-		);
+		this.optimizationPolicy = typeof policy === 'string' ? optimizationPolicies[policy] : policy;
 		
-		setTimeout(() => {
-			
-			verboseLogging && console.log('Optimization: Starting auto optimization');
-			
-			// Apply optimizations
-			const sceneOptimizer = SceneOptimizer.OptimizeAsync(
-				scene,
-				options,
-				() => {
-					verboseLogging && console.log(`Optimization: FPS target reached at priority level ${sceneOptimizer.currentPriorityLevel}`);
-				},
-				() => {
-					verboseLogging && console.log('Optimization: Did not reach FPS target');
-					// alert('Did not reach target');
-				}
-			);
-			
-			// REVIEW: Is this actually needed?
-			sceneOptimizer.trackerDuration = trackerDuration;
-			
-		}, optimizationStartDelayMs);
+		if (!this.qualityOptimizer) {
+			return;
+		}
 		
+		this.qualityOptimizer.reset();
+		this.qualityOptimizer.dispose();
+		this.qualityOptimizer = this.createQualityOptimizer();
+		
+	}
+	
+	/**
+	 * Number of optimization steps currently applied, 0 is full quality
+	 */
+	getOptimizerLevel() {
+		return this.qualityOptimizer?.level ?? 0;
 	}
 	
 	initJumpToCameraPosition(scene: Scene, camera: ArcRotateCamera, exploreCamera: ArcRotateCamera, solarSystemTransformNode: TransformNode, animationDurationSeconds: number = 1) {
 		
 		let pointerDown = false;
-		let animations: (Animatable | null)[] = [];
 		let bodyMesh: AbstractMesh | null = null;
 		
-		function killAnimations() {
-			animations.forEach(a => a?.stop());
-			animations = [];
-		}
-		
 		scene.onPointerDown = (e, pickingInfo) => {
 			pointerDown = true;
 			
@@ -1241,7 +2286,7 @@ export class Renderer {
 			if (pointerDown && e.pointerType !== 'touch') {
 				bodyMesh = null;
 				
-				killAnimations();
+				this.cancelFocus();
 			}
 		};
 		
@@ -1254,6 +2299,7 @@ export class Renderer {
 			
 			// const point = pickingInfo.pickedPoint;
 			let mesh = pickingInfo.pickedMesh;
+			let thinInstanceIndex = pickingInfo.thinInstanceIndex;
 			
 			if (!mesh) {
 				// From here https://forum.babylonjs.com/t/pointer-through-multiple-cameras/10467/5
@@ -1261,6 +2307,7 @@ export class Renderer {
 					let pi = scene.pick(e.x, e.y, null as any, false, camera);
 					if (pi?.pickedMesh) {
 						mesh = pi?.pickedMesh;
+						thinInstanceIndex = pi.thinInstanceIndex;
 					}
 					else {
 						return;
@@ -1280,55 +2327,323 @@ export class Renderer {
 				console.log(mesh);
 			}
 			
-			const easingFunction = new QuinticEase();
-			easingFunction.setEasingMode(EasingFunction.EASINGMODE_EASEOUT);
-			
-			const animationRatio = scene.getAnimationRatio();
-			const targetFps = 60 * animationRatio;
-			
-			// Only allow jumping if we are not in galaxy scaling mode
-			if (!solarSystemTransformNode.scaling.equalsWithEpsilon(Vector3.One(), 0.01)) {
-				await new Promise((resolve) =>
-					Animation.CreateAndStartAnimation('cameraZoomToLocalSystem', camera, 'radius', targetFps, 0.5 * targetFps, camera.radius, 95, Animation.ANIMATIONLOOPMODE_RELATIVE, easingFunction, () => resolve(true))
-				);
+			// Other star systems can only be told apart once zoomed out to the galaxy
+			if (mesh === this.starSystemsMesh) {
+				const starSystem = this.starSystemInstances[thinInstanceIndex];
+				
+				if (starSystem && !solarSystemTransformNode.scaling.equalsWithEpsilon(Vector3.One(), 0.01)) {
+					this.selectStarSystem(starSystem);
+				}
+				
+				return;
 			}
 			
 			const correspondingSolarBody = this.solarBodies.filter(solarBody => solarBody.mesh === mesh)[0];
 			
-			if (this.currentlyFocusedPlanet === correspondingSolarBody) {
-				console.log('Already focused on this mesh');
+			if (!correspondingSolarBody) {
 				return;
 			}
 			
-			this.currentlyFocusedPlanet = correspondingSolarBody;
+			this.focusBody(correspondingSolarBody, { durationSeconds: animationDurationSeconds });
 			
-			const point = mesh.absolutePosition;
+		};
+		
+	}
+	
+	/**
+	 * Flies the main camera to a body, leaving galaxy scale first if needed, and moves the explore camera to it.
+	 * 
+	 * Resolves with `true` once the camera has arrived or `false` if the flight was cancelled, either through
+	 * `cancelFocus()`, the abort signal, another focus request or the user dragging the camera.
+	 */
+	focusBody(body: string | PlanetMeta, options: FocusBodyOptions = {}): Promise<boolean> {
+		
+		const planetMeta = typeof body === 'string' ? this.getSolarBody(body) : body;
+		
+		if (!planetMeta) {
+			return Promise.reject(new Error(`Unknown solar body "${body}"`));
+		}
+		
+		this.cancelFocus();
+		
+		if (options.signal?.aborted) {
+			return Promise.resolve(false);
+		}
+		
+		const focusPromise = new Promise<boolean>(resolve => {
 			
-			const origAlpha = camera.alpha;
-			const origBeta = camera.beta;
+			const isCurrent = () => this.resolveFocus === resolve;
+			this.resolveFocus = resolve;
 			
-			animations.push(Animation.CreateAndStartAnimation('cameraMove1', camera, 'target', targetFps, animationDurationSeconds * targetFps, camera.target.clone(), point, Animation.ANIMATIONLOOPMODE_RELATIVE, easingFunction));
-			animations.push(Animation.CreateAndStartAnimation('cameraMove2', camera, 'radius', targetFps, animationDurationSeconds * targetFps, camera.radius, camera.radius, Animation.ANIMATIONLOOPMODE_RELATIVE, easingFunction));
+			options.signal?.addEventListener('abort', () => isCurrent() && this.cancelFocus(), { once: true });
 			
-			animations.push(Animation.CreateAndStartAnimation('cameraMove3', camera, 'alpha', targetFps, animationDurationSeconds * targetFps, camera.alpha, origAlpha, Animation.ANIMATIONLOOPMODE_RELATIVE));
-			animations.push(Animation.CreateAndStartAnimation('cameraMove4', camera, 'beta', targetFps, animationDurationSeconds * targetFps, camera.beta, origBeta, Animation.ANIMATIONLOOPMODE_RELATIVE));
+			this.runFocusAnimation(planetMeta, options, isCurrent).then(() => {
+				if (isCurrent()) {
+					this.resolveFocus = null;
+					this.cameraAnimations = [];
+					resolve(true);
+				}
+			});
 			
-			// Set the pivot point of the transform node to the selected point so the galaxy scaling trick looks correct
-			// But only set this if we are not already in galaxy space
-			if (solarSystemTransformNode.scaling.equalsWithEpsilon(Vector3.One(), 0.01)) {
-				solarSystemTransformNode.setPivotPoint(point);
+		});
+		
+		focusPromise.then(completed => this.events.emit('focusAnimationFinished', { body: planetMeta, completed }));
+		
+		return focusPromise;
+	}
+	
+	/**
+	 * Stops an in-flight `focusBody` animation where it is, resolving its promise with `false`
+	 */
+	cancelFocus() {
+		const resolveFocus = this.resolveFocus;
+		
+		this.resolveFocus = null;
+		this.stopCameraAnimations();
+		resolveFocus && resolveFocus(false);
+	}
+	
+	/**
+	 * Looks up a body by its friendly or inspector name
+	 */
+	getSolarBody(name: string) {
+		return this.solarBodies.filter(solarBody => solarBody.name === name || solarBody.definition.inspectorName === name)[0] ?? null;
+	}
+	
+	async runFocusAnimation(planetMeta: PlanetMeta, options: FocusBodyOptions, isCurrent: () => boolean) {
+		
+		const { defaultCamera: camera, exploreCamera, solarSystemTransformNode } = this;
+		
+		if (!camera || !exploreCamera || !solarSystemTransformNode) {
+			return;
+		}
+		
+		const scene = camera.getScene();
+		
+		const defaultEasingFunction = new QuinticEase();
+		defaultEasingFunction.setEasingMode(EasingFunction.EASINGMODE_EASEOUT);
+		
+		const easingFunction = options.easing ?? defaultEasingFunction;
+		const animationDurationSeconds = options.durationSeconds ?? 1;
+		
+		const animationRatio = scene.getAnimationRatio();
+		const targetFps = 60 * animationRatio;
+		
+		const animate = <T extends number | Vector3>(name: string, property: string, from: T, to: T, durationSeconds: number, easing?: EasingFunction) => new Promise<void>(resolve => {
+			const animatable = Animation.CreateAndStartAnimation(name, camera, property, targetFps, Math.max(1, durationSeconds * targetFps), from, to, Animation.ANIMATIONLOOPMODE_CONSTANT, easing, () => resolve());
+			animatable ? this.cameraAnimations.push(animatable) : resolve();
+		});
+		
+		// Only allow jumping if we are not in galaxy scaling mode
+		if (!solarSystemTransformNode.scaling.equalsWithEpsilon(Vector3.One(), 0.01)) {
+			await animate('cameraZoomToLocalSystem', 'radius', camera.radius, 95, 0.5, defaultEasingFunction);
+			
+			if (!isCurrent()) {
+				return;
+			}
+		}
+		
+		const movesCamera = options.radius !== undefined || options.alpha !== undefined || options.beta !== undefined;
+		
+		if (this.currentlyFocusedPlanet === planetMeta && !movesCamera) {
+			return;
+		}
+		
+		this.setFocusedPlanet(planetMeta);
+		
+		const { mesh } = planetMeta;
+		const point = mesh.absolutePosition;
+		
+		// Set the pivot point of the transform node to the selected point so the galaxy scaling trick looks correct
+		// But only set this if we are not already in galaxy space
+		if (solarSystemTransformNode.scaling.equalsWithEpsilon(Vector3.One(), 0.01)) {
+			solarSystemTransformNode.setPivotPoint(point);
+		}
+		
+		// Update explore camera to new location
+		if (mesh.layerMask & exploreCamera.layerMask) {
+			exploreCamera.parent = mesh;
+			exploreCamera.radius = Renderer.getExploreCameraRadius(planetMeta);
+		}
+		
+		await Promise.all([
+			animate('cameraMove1', 'target', camera.target.clone(), point, animationDurationSeconds, easingFunction),
+			animate('cameraMove2', 'radius', camera.radius, options.radius ?? camera.radius, animationDurationSeconds, easingFunction),
+			// Angles are held (or eased when requested) so the user's view direction survives the flight
+			animate('cameraMove3', 'alpha', camera.alpha, options.alpha ?? camera.alpha, animationDurationSeconds, options.alpha !== undefined ? easingFunction : undefined),
+			animate('cameraMove4', 'beta', camera.beta, options.beta ?? camera.beta, animationDurationSeconds, options.beta !== undefined ? easingFunction : undefined),
+		]);
+		
+	}
+	
+	/**
+	 * Animates the main camera's alpha/beta/radius towards the given values using the same easing as body jumps
+	 */
+	animateCameraOrbit(values: CameraOrbitValues, animationDurationSeconds: number = 1): Promise<boolean> {
+		
+		const camera = this.defaultCamera;
+		
+		if (!camera) {
+			return Promise.resolve(false);
+		}
+		
+		const easingFunction = new QuinticEase();
+		easingFunction.setEasingMode(EasingFunction.EASINGMODE_EASEOUT);
+		
+		const targetFps = 60 * camera.getScene().getAnimationRatio();
+		const generation = this.cameraAnimationGeneration;
+		
+		const animations = (['alpha', 'beta', 'radius'] as const).map(property => new Promise<void>(resolve => {
+			const value = values[property];
+			const animatable = value === undefined ? null : Animation.CreateAndStartAnimation(`cameraOrbit_${property}`, camera, property, targetFps, Math.max(1, animationDurationSeconds * targetFps), camera[property], value, Animation.ANIMATIONLOOPMODE_CONSTANT, easingFunction, () => resolve());
+			animatable ? this.cameraAnimations.push(animatable) : resolve();
+		}));
+		
+		// Stopping an animatable also raises its end callback, the generation tells a stop apart from a finish
+		return Promise.all(animations).then(() => generation === this.cameraAnimationGeneration);
+		
+	}
+	
+	/**
+	 * Camera distance for a galaxy zoom level, 0 being the edge of the solar system and 1 the fully shrunk galaxy view
+	 */
+	getGalaxyZoomRadius(level: number) {
+		return galaxyScaleDistance.start + (MathUtils.clamp(level, 0, 1) * (galaxyScaleDistance.end - galaxyScaleDistance.start));
+	}
+	
+	stopCameraAnimations() {
+		this.cameraAnimationGeneration++;
+		this.cameraAnimations.forEach(a => a.stop());
+		this.cameraAnimations = [];
+	}
+	
+	/**
+	 * Focuses the body before (-1) or after (1) the currently focused one, wrapping around
+	 */
+	jumpToAdjacentSolarBody(direction: 1 | -1) {
+		
+		const bodies = this.solarBodies;
+		
+		if (bodies.length === 0) {
+			return;
+		}
+		
+		const currentIndex = this.currentlyFocusedPlanet ? bodies.indexOf(this.currentlyFocusedPlanet) : -1;
+		const nextIndex = (currentIndex + direction + bodies.length) % bodies.length;
+		
+		this.focusBody(bodies[nextIndex]);
+		
+	}
+	
+	jumpToStar() {
+		const star = this.solarBodies.filter(solarBody => solarBody.type === 'star')[0];
+		star && this.focusBody(star);
+	}
+	
+	/**
+	 * Pulls the camera all the way out so the galaxy scaling kicks in
+	 */
+	zoomToGalaxyView() {
+		this.cancelFocus();
+		this.animateCameraOrbit({ radius: this.getGalaxyZoomRadius(1) }, 1.5);
+	}
+	
+	/**
+	 * Returns to the initial view: first planet focused with the default camera angles
+	 */
+	resetCamera() {
+		
+		const firstPlanetMeta = this.solarBodies.filter(solarBody => solarBody.type === 'planet')[0];
+		
+		firstPlanetMeta && this.focusBody(firstPlanetMeta, defaultCameraOrbit);
+		
+	}
+	
+	/**
+	 * Keyboard shortcuts for navigating between bodies. Arrow keys are left alone as the camera uses them to rotate.
+	 */
+	initKeyboardNavigation(scene: Scene) {
+		
+		const actions: Record<string, () => void> = {
+			']': () => this.jumpToAdjacentSolarBody(1),
+			'PageDown': () => this.jumpToAdjacentSolarBody(1),
+			'n': () => this.jumpToAdjacentSolarBody(1),
+			'[': () => this.jumpToAdjacentSolarBody(-1),
+			'PageUp': () => this.jumpToAdjacentSolarBody(-1),
+			'p': () => this.jumpToAdjacentSolarBody(-1),
+			's': () => this.jumpToStar(),
+			'Home': () => this.jumpToStar(),
+			'g': () => this.zoomToGalaxyView(),
+			'r': () => this.resetCamera(),
+			'Escape': () => this.resetCamera(),
+		};
+		
+		scene.onKeyboardObservable.add(kbInfo => {
+			
+			if (kbInfo.type !== KeyboardEventTypes.KEYDOWN || kbInfo.event.ctrlKey || kbInfo.event.metaKey || kbInfo.event.altKey) {
+				return;
 			}
 			
-			// Update explore camera to new location
-			if (mesh.layerMask & exploreCamera.layerMask) {
-				exploreCamera.parent = mesh;
-				const meshBoundingInfo = mesh.getBoundingInfo();
-				const meshSize = meshBoundingInfo.boundingBox.maximum.subtract(meshBoundingInfo.boundingBox.minimum);
-				exploreCamera.radius = meshSize.length();
+			const action = actions[kbInfo.event.key];
+			
+			if (action) {
+				kbInfo.event.preventDefault();
+				action();
 			}
 			
+		});
+		
+		// Kiosks have no pointer to click into the canvas first
+		this.canvasEl.focus();
+		
+	}
+	
+	/**
+	 * Gamepad bindings mirroring the keyboard shortcuts. The sticks orbit and zoom the camera via Babylon's gamepad input.
+	 */
+	initGamepadNavigation(scene: Scene, camera: ArcRotateCamera) {
+		
+		camera.inputs.addGamepad();
+		
+		// Standard gamepad mapping, shared by the Xbox and DualShock button enums
+		const actions: Record<number, () => void> = {
+			[Xbox360Button.RB]: () => this.jumpToAdjacentSolarBody(1),
+			[Xbox360Dpad.Right]: () => this.jumpToAdjacentSolarBody(1),
+			[Xbox360Button.LB]: () => this.jumpToAdjacentSolarBody(-1),
+			[Xbox360Dpad.Left]: () => this.jumpToAdjacentSolarBody(-1),
+			[Xbox360Button.Y]: () => this.jumpToStar(),
+			[Xbox360Button.X]: () => this.zoomToGalaxyView(),
+			[Xbox360Button.B]: () => this.resetCamera(),
+			[Xbox360Button.Back]: () => this.resetCamera(),
 		};
 		
+		const onButton = (button: number) => actions[button]?.();
+		
+		// The scene's manager already polls the pads for the camera input and is disposed along with the scene
+		scene.gamepadManager.onGamepadConnectedObservable.add(gamepad => {
+			
+			if (gamepad instanceof Xbox360Pad || gamepad instanceof DualShockPad) {
+				gamepad.onButtonDownObservable.add(onButton);
+				gamepad.onPadDownObservable.add(onButton);
+			}
+			else if (gamepad instanceof GenericPad) {
+				gamepad.onButtonDownObservable.add(onButton);
+			}
+			
+		});
+		
+	}
+	
+	/**
+	 * Distance at which the explore camera frames the whole body, including any rings
+	 */
+	static getExploreCameraRadius(planetMeta: PlanetMeta) {
+		
+		const meshBoundingInfo = planetMeta.mesh.getBoundingInfo();
+		const meshSize = meshBoundingInfo.boundingBox.maximum.subtract(meshBoundingInfo.boundingBox.minimum);
+		const ringDiameter = (planetMeta.definition.rings?.outerRadius ?? 0) * 2;
+		
+		return Math.max(meshSize.length(), ringDiameter * 1.2);
 	}
 	
 	static getDistanceRangePercentage(startDist: number, endDist: number, distance: number) {
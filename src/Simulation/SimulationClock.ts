@@ -0,0 +1,100 @@
+import { Observable } from "@babylonjs/core";
+
+import * as MathUtils from '../Utils/Math';
+
+export interface SimulationClockRateChange {
+	rate: number;
+	paused: boolean;
+	/** Rate actually applied to time, i.e. 0 while paused */
+	effectiveRate: number;
+}
+
+/**
+ * Central simulation time source. Everything that moves on its own (orbits, cloud layers, camera drift) derives its state
+ * from `time` so the system can be paused, time-warped (including backwards) and scrubbed.
+ */
+export class SimulationClock {
+	
+	static readonly minRate = -1000;
+	static readonly maxRate = 1000;
+	
+	/** Fires whenever the rate or paused state changes */
+	onRateChangedObservable = new Observable<SimulationClockRateChange>();
+	/** Fires when the time is explicitly set (scrubbing), not on regular ticks */
+	onTimeSetObservable = new Observable<number>();
+	
+	private _time: number = 0;
+	private _rate: number = 1;
+	private _paused: boolean = false;
+	
+	/** Simulated seconds since epoch */
+	get time() {
+		return this._time;
+	}
+	
+	/** Multiplier applied to real time */
+	get rate() {
+		return this._rate;
+	}
+	
+	get paused() {
+		return this._paused;
+	}
+	
+	get effectiveRate() {
+		return this._paused ? 0 : this._rate;
+	}
+	
+	/**
+	 * Advances the clock by the real time elapsed since the last frame and returns the simulated delta in seconds
+	 */
+	tick(deltaMs: number) {
+		const simDelta = (deltaMs / 1000) * this.effectiveRate;
+		this._time += simDelta;
+		return simDelta;
+	}
+	
+	play() {
+		if (this._paused) {
+			this._paused = false;
+			this.notifyRateChanged();
+		}
+	}
+	
+	pause() {
+		if (!this._paused) {
+			this._paused = true;
+			this.notifyRateChanged();
+		}
+	}
+	
+	togglePause() {
+		this._paused ? this.play() : this.pause();
+	}
+	
+	/**
+	 * Sets the time-warp multiplier. Negative values run the simulation backwards. Clamped to `minRate`..`maxRate`.
+	 */
+	setRate(rate: number) {
+		const newRate = MathUtils.clamp(rate, SimulationClock.minRate, SimulationClock.maxRate);
+		
+		if (newRate !== this._rate) {
+			this._rate = newRate;
+			this.notifyRateChanged();
+		}
+	}
+	
+	setTime(time: number) {
+		this._time = time;
+		this.onTimeSetObservable.notifyObservers(time);
+	}
+	
+	private notifyRateChanged() {
+		this.onRateChangedObservable.notifyObservers({
+			rate: this._rate,
+			paused: this._paused,
+			effectiveRate: this.effectiveRate,
+		});
+	}
+	
+}
@@ -0,0 +1,208 @@
+import { AbstractMesh, Camera, Frustum, Nullable, Plane } from "@babylonjs/core";
+
+/**
+ * Phases run in this order every frame. Simulation state (orbits, clouds) is settled first so the camera can follow it,
+ * then UI reads the final camera and positions, and post work (e.g. URL syncing) sees the finished frame.
+ */
+export const tickPhases = ['simulation', 'camera', 'ui', 'post'] as const;
+
+export type TickPhase = typeof tickPhases[number];
+
+export type TickCallback = (delta: number, animationRatio: number) => void;
+
+/** Anything that can be hidden, typically the mesh of a body */
+export interface TickVisibilityTarget {
+	isEnabled(): boolean;
+	isVisible: boolean;
+	isInFrustum(frustumPlanes: Plane[]): boolean;
+	/** Null while the LOD leaves nothing to render */
+	getLOD(camera: Camera): Nullable<AbstractMesh>;
+}
+
+export interface TickCallbackOptions {
+	/** Shown in profiles, e.g. `label:Tisiri` */
+	name: string;
+	/** Defaults to `simulation` */
+	phase?: TickPhase;
+	/**
+	 * Skip the callback while this target is disabled, invisible or not seen by any of the scheduler's `cameras` (outside
+	 * their frustum or culled by its LOD). Only use this for work that is derived from scratch each frame (e.g. from the
+	 * simulation clock) so nothing is lost by skipping it.
+	 */
+	skipWhenHidden?: TickVisibilityTarget;
+}
+
+export interface TickHandle {
+	readonly name: string;
+	readonly phase: TickPhase;
+	/** Unregisters the callback. Safe to call more than once and from within a tick. */
+	dispose(): void;
+}
+
+export interface TickProfileEntry {
+	name: string;
+	phase: TickPhase;
+	calls: number;
+	skipped: number;
+	totalMs: number;
+	averageMs: number;
+	maxMs: number;
+	lastMs: number;
+}
+
+interface TickEntry {
+	handle: TickHandle;
+	callback: TickCallback;
+	skipWhenHidden?: TickVisibilityTarget;
+	disposed: boolean;
+	profile: TickProfileEntry;
+}
+
+/**
+ * Runs per-frame callbacks grouped into phases. Within a phase callbacks run in registration order, so the order of a
+ * frame is fully deterministic. Optionally measures how much CPU time every callback costs.
+ */
+export class TickScheduler {
+	
+	/** Measure callback durations. Off by default as timing every callback has a small cost of its own. */
+	profilingEnabled: boolean = false;
+	
+	/** Cameras a `skipWhenHidden` target has to be seen by. Without any only `isEnabled()` and `isVisible` count. */
+	cameras: Camera[] = [];
+	
+	/** Frustum planes per camera, computed on demand once per phase as the camera phase moves the cameras */
+	private frustumPlanes: null | Plane[][] = null;
+	
+	private phases: Record<TickPhase, TickEntry[]> = {
+		simulation: [],
+		camera: [],
+		ui: [],
+		post: [],
+	};
+	
+	/**
+	 * Registers a callback and returns a handle to remove it again
+	 */
+	add(callback: TickCallback, options: TickCallbackOptions): TickHandle {
+		
+		const phase = options.phase ?? 'simulation';
+		
+		const entry: TickEntry = {
+			callback,
+			skipWhenHidden: options.skipWhenHidden,
+			disposed: false,
+			profile: { name: options.name, phase, calls: 0, skipped: 0, totalMs: 0, averageMs: 0, maxMs: 0, lastMs: 0 },
+			handle: {
+				name: options.name,
+				phase,
+				dispose: () => {
+					if (!entry.disposed) {
+						entry.disposed = true;
+						this.phases[phase] = this.phases[phase].filter(other => other !== entry);
+					}
+				},
+			},
+		};
+		
+		this.phases[phase].push(entry);
+		
+		return entry.handle;
+	}
+	
+	/**
+	 * Runs all callbacks for one frame
+	 */
+	tick(delta: number, animationRatio: number) {
+		
+		tickPhases.forEach(phase => {
+			this.frustumPlanes = null;
+			
+			// Iterate over the array as it was at the start of the phase, callbacks may add or dispose handles
+			this.phases[phase].forEach(entry => {
+				
+				if (entry.disposed) {
+					return;
+				}
+				
+				const { skipWhenHidden, profile } = entry;
+				
+				if (skipWhenHidden && this.isHidden(skipWhenHidden)) {
+					profile.skipped++;
+					return;
+				}
+				
+				if (!this.profilingEnabled) {
+					entry.callback(delta, animationRatio);
+					return;
+				}
+				
+				const start = performance.now();
+				entry.callback(delta, animationRatio);
+				const duration = performance.now() - start;
+				
+				profile.calls++;
+				profile.totalMs += duration;
+				profile.averageMs = profile.totalMs / profile.calls;
+				profile.maxMs = Math.max(profile.maxMs, duration);
+				profile.lastMs = duration;
+				
+			});
+		});
+		
+	}
+	
+	/**
+	 * Timings of all registered callbacks, most expensive first. Only populated while `profilingEnabled` is set.
+	 */
+	getProfile(): TickProfileEntry[] {
+		return this.getEntries()
+			.map(entry => ({ ...entry.profile }))
+			.sort((a, b) => b.totalMs - a.totalMs);
+	}
+	
+	resetProfile() {
+		this.getEntries().forEach(({ profile }) => {
+			profile.calls = 0;
+			profile.skipped = 0;
+			profile.totalMs = 0;
+			profile.averageMs = 0;
+			profile.maxMs = 0;
+			profile.lastMs = 0;
+		});
+	}
+	
+	get size() {
+		return this.getEntries().length;
+	}
+	
+	/**
+	 * Disposes all handles
+	 */
+	clear() {
+		this.getEntries().forEach(entry => entry.handle.dispose());
+	}
+	
+	/**
+	 * Bounding info is updated while rendering, so this reflects the previous frame's positions
+	 */
+	private isHidden(target: TickVisibilityTarget) {
+		
+		if (!target.isEnabled() || !target.isVisible) {
+			return true;
+		}
+		
+		if (this.cameras.length === 0) {
+			return false;
+		}
+		
+		const frustumPlanes = this.frustumPlanes ?? this.cameras.map(camera => Frustum.GetPlanes(camera.getViewMatrix().multiply(camera.getProjectionMatrix())));
+		this.frustumPlanes = frustumPlanes;
+		
+		return !this.cameras.some((camera, i) => target.isInFrustum(frustumPlanes[i]) && target.getLOD(camera) !== null);
+	}
+	
+	private getEntries() {
+		return tickPhases.reduce((entries, phase) => entries.concat(this.phases[phase]), [] as TickEntry[]);
+	}
+	
+}
@@ -0,0 +1,226 @@
+import {
+	Color3,
+	Effect,
+	Engine,
+	Mesh,
+	MeshBuilder,
+	PBRMaterial,
+	Scene,
+	ShaderMaterial,
+	Texture,
+	Vector3,
+} from "@babylonjs/core";
+
+import { LodDefinition } from './Definition';
+
+export interface CloudLayerOptions {
+	/** Diameter of the body the clouds wrap */
+	bodyDiameter: number;
+	/** Segments of the body's highest detail mesh. The cloud sphere uses half of this. */
+	bodySegments: number;
+	/** Height above the surface as a fraction of the body diameter */
+	altitude: number;
+	/** Radians per simulated second. Positive values rotate westward. */
+	rotationSpeed: number;
+	/** Not disposed with the layer, it stays owned by the caller */
+	opacityTexture: Texture;
+	lod?: LodDefinition;
+	layerMask: number;
+}
+
+/**
+ * Semi transparent cloud sphere wrapped around a body. The layer is parented to the body, follows its LOD levels and is
+ * disposed together with it.
+ */
+export class CloudLayer {
+	
+	mesh: Mesh;
+	lods: Mesh[] = [];
+	material: PBRMaterial;
+	
+	private disposed: boolean = false;
+	
+	constructor(public name: string, bodyMesh: Mesh, public opts: CloudLayerOptions, scene: Scene) {
+		
+		const diameter = opts.bodyDiameter + (opts.altitude * opts.bodyDiameter);
+		
+		const material = new PBRMaterial(`${name}Mat`, scene);
+		material.opacityTexture = opts.opacityTexture;
+		material.metallic = 0.0;
+		material.roughness = 1.0;
+		this.material = material;
+		
+		const createSphere = (sphereName: string, segments: number) => {
+			const sphere = MeshBuilder.CreateSphere(sphereName, { diameter, segments: Math.max(3, Math.round(segments / 2)) }, scene);
+			sphere.renderingGroupId = 1;
+			sphere.layerMask = opts.layerMask;
+			sphere.isPickable = false;
+			sphere.material = material;
+			return sphere;
+		};
+		
+		this.mesh = createSphere(name, opts.bodySegments);
+		this.mesh.parent = bodyMesh;
+		
+		if (opts.lod) {
+			this.mesh.useLODScreenCoverage = opts.lod.useLODScreenCoverage === true;
+			
+			opts.lod.levels.forEach(lodLevelConfig => {
+				const lodSphere = createSphere(`${name}_lod_${lodLevelConfig.level}`, lodLevelConfig.segments);
+				lodSphere.parent = this.mesh;
+				this.mesh.addLODLevel(lodLevelConfig.level, lodSphere);
+				this.lods.push(lodSphere);
+			});
+		}
+		
+		bodyMesh.onDisposeObservable.addOnce(() => this.dispose());
+	}
+	
+	/**
+	 * Sets the rotation for the given simulation time
+	 */
+	update(time: number) {
+		if (this.disposed) {
+			return;
+		}
+		
+		this.mesh.rotation.y = -this.opts.rotationSpeed * time;
+	}
+	
+	dispose() {
+		if (this.disposed) {
+			return;
+		}
+		
+		this.disposed = true;
+		this.lods.forEach(lod => lod.dispose());
+		this.mesh.dispose();
+		this.material.dispose();
+	}
+	
+}
+
+Effect.ShadersStore['atmosphereGlowVertexShader'] = `
+	precision highp float;
+	
+	attribute vec3 position;
+	attribute vec3 normal;
+	
+	uniform mat4 world;
+	uniform mat4 worldViewProjection;
+	
+	varying vec3 vPositionW;
+	varying vec3 vNormalW;
+	
+	void main(void) {
+		vPositionW = vec3(world * vec4(position, 1.0));
+		vNormalW = normalize(vec3(world * vec4(normal, 0.0)));
+		gl_Position = worldViewProjection * vec4(position, 1.0);
+	}
+`;
+
+Effect.ShadersStore['atmosphereGlowFragmentShader'] = `
+	precision highp float;
+	
+	varying vec3 vPositionW;
+	varying vec3 vNormalW;
+	
+	uniform vec3 cameraPosition;
+	uniform vec3 sunPosition;
+	uniform vec3 glowColor;
+	uniform float intensity;
+	uniform float power;
+	
+	void main(void) {
+		vec3 normalW = normalize(vNormalW);
+		vec3 viewDirection = normalize(cameraPosition - vPositionW);
+		vec3 sunDirection = normalize(sunPosition - vPositionW);
+		
+		// Light travels through more atmosphere at grazing angles, which is what makes the limb glow
+		float rim = pow(1.0 - clamp(dot(normalW, viewDirection), 0.0, 1.0), power);
+		
+		// Scattering only happens on the lit side, softened so the glow wraps slightly past the terminator
+		float daylight = clamp(dot(normalW, sunDirection) + 0.35, 0.0, 1.0);
+		
+		float glow = rim * daylight * intensity;
+		gl_FragColor = vec4(glowColor * glow, glow);
+	}
+`;
+
+export interface AtmosphereGlowOptions {
+	bodyDiameter: number;
+	bodySegments: number;
+	/** Thickness of the atmosphere as a fraction of the body diameter */
+	altitude: number;
+	color: Color3;
+	intensity: number;
+	/** Higher values push the glow further towards the limb */
+	power: number;
+	layerMask: number;
+	/** Node whose absolute position is used as the light source for scattering */
+	sun: null | { getAbsolutePosition(): Vector3 };
+}
+
+/**
+ * Rim glow approximating atmospheric scattering. Rendered as an additive shell slightly larger than the body.
+ */
+export class AtmosphereGlow {
+	
+	mesh: Mesh;
+	material: ShaderMaterial;
+	
+	private disposed: boolean = false;
+	
+	constructor(public name: string, bodyMesh: Mesh, public opts: AtmosphereGlowOptions, scene: Scene) {
+		
+		const material = new ShaderMaterial(`${name}Mat`, scene, { vertex: 'atmosphereGlow', fragment: 'atmosphereGlow' }, {
+			attributes: ['position', 'normal'],
+			uniforms: ['world', 'worldViewProjection', 'cameraPosition', 'sunPosition', 'glowColor', 'intensity', 'power'],
+			needAlphaBlending: true,
+		});
+		material.alphaMode = Engine.ALPHA_ADD;
+		material.backFaceCulling = true;
+		material.setColor3('glowColor', opts.color);
+		material.setFloat('intensity', opts.intensity);
+		material.setFloat('power', opts.power);
+		
+		// Both the main camera and the explore camera render this so the camera position has to be resolved per bind
+		material.onBindObservable.add(() => {
+			const camera = scene.activeCamera;
+			const effect = material.getEffect();
+			
+			if (!camera || !effect) {
+				return;
+			}
+			
+			effect.setVector3('cameraPosition', camera.globalPosition);
+			effect.setVector3('sunPosition', opts.sun ? opts.sun.getAbsolutePosition() : Vector3.Zero());
+		});
+		this.material = material;
+		
+		this.mesh = MeshBuilder.CreateSphere(name, { diameter: opts.bodyDiameter * (1 + opts.altitude), segments: opts.bodySegments }, scene);
+		this.mesh.parent = bodyMesh;
+		this.mesh.material = material;
+		this.mesh.renderingGroupId = 1;
+		this.mesh.layerMask = opts.layerMask;
+		this.mesh.isPickable = false;
+		
+		bodyMesh.onDisposeObservable.addOnce(() => this.dispose());
+	}
+	
+	setColor(color: Color3) {
+		this.opts.color = color;
+		this.material.setColor3('glowColor', color);
+	}
+	
+	dispose() {
+		if (this.disposed) {
+			return;
+		}
+		
+		this.disposed = true;
+		this.mesh.dispose();
+		this.material.dispose();
+	}
+	
+}
@@ -0,0 +1,156 @@
+import { BundledAssetKey } from '../Assets/AssetRegistry';
+import { SolarSystemDefinition } from './Definition';
+
+const defaultLod = {
+	useLODScreenCoverage: true,
+	levels: [
+		{level: 0.01, segments: 8},
+		{level: 0.001, segments: 3},
+	],
+};
+
+/** The system shown by the demo when no other definition is supplied. Only uses bundled textures. */
+export const defaultSolarSystemDefinition: SolarSystemDefinition<BundledAssetKey> = {
+	name: 'Default',
+	bodies: [
+		{
+			type: 'star',
+			inspectorName: 'sun',
+			friendlyName: 'Sun',
+			description: 'A young blue-white star whose light gives the system its violet cast.',
+			diameter: 40,
+			segments: 32,
+			// LODs are only applied when god rays are disabled
+			lod: defaultLod,
+			material: {
+				type: 'star',
+				emissiveTexture: {texture: 'sun'},
+			},
+			highlightColor: '#00004C',
+			gravitationalParameter: 80,
+			layerMask: 0x20000000,
+		},
+		{
+			type: 'planet',
+			inspectorName: 'planet1',
+			friendlyName: 'Penuaturn', // https://www.fantasynamegenerators.com/planet_names.php
+			description: 'A small water world wrapped in pale, dusty rings.',
+			diameter: 2,
+			segments: 26,
+			lod: defaultLod,
+			material: {
+				type: 'pbr',
+				albedoTexture: {texture: 'ertaale_albedo_blue'},
+				bumpTexture: {texture: 'ertaale_bump_low', level: 1.6},
+				metallic: 0.0, // Set these to 1.0 to use metallic & roughness from texture
+				roughness: 1.0,
+				specularIntensity: 0.27,
+			},
+			orbit: {semiMajorAxis: 70, eccentricity: 0.05, inclination: 6, longitudeOfAscendingNode: 40, argumentOfPeriapsis: 20, meanAnomalyAtEpoch: -70},
+			rings: {innerRadius: 1.4, outerRadius: 2.8, color: '#D8C9A8', opacity: 0.9, tilt: [0.1, 0, 0], seed: 7},
+			rotation: [0, Math.PI * 0.12, Math.PI * 0.06],
+			highlightColor: '#0F1F4C',
+		},
+		{
+			type: 'planet',
+			inspectorName: 'planet2',
+			friendlyName: 'Unradus',
+			description: 'A dense metallic planet with a glassy teal surface.',
+			diameter: 1.5,
+			segments: 26,
+			lod: defaultLod,
+			material: {
+				type: 'pbrMetallicRoughness',
+				baseColor: '#008080',
+				normalTexture: {texture: 'ertaale_bump_low', level: 0.25},
+				metallic: 0.5,
+				roughness: 0.3,
+			},
+			orbit: {semiMajorAxis: 200, eccentricity: 0.02, inclination: 1, longitudeOfAscendingNode: 0, argumentOfPeriapsis: 0, meanAnomalyAtEpoch: 0},
+			highlightColor: '#3366FF',
+		},
+		{
+			type: 'planet',
+			inspectorName: 'planet3',
+			friendlyName: 'Lyke GS',
+			description: 'A scorched desert world circled by a belt of tumbling rocks.',
+			diameter: 3.5,
+			segments: 26,
+			lod: defaultLod,
+			material: {
+				type: 'pbr',
+				albedoTexture: {texture: 'ertaale_albedo_red'},
+				bumpTexture: {texture: 'ertaale_bump'},
+				metallic: 0.0,
+				roughness: 1.0,
+			},
+			orbit: {semiMajorAxis: 105, eccentricity: 0.1, inclination: 4, longitudeOfAscendingNode: 110, argumentOfPeriapsis: 45, meanAnomalyAtEpoch: -60},
+			rings: {mode: 'particles', innerRadius: 2.6, outerRadius: 3.6, color: '#8C7B6B', particleCount: 1500, particleSize: 0.06, seed: 3},
+			rotation: [0, 0, Math.PI * 0.12],
+		},
+		{
+			type: 'planet',
+			inspectorName: 'planet4',
+			friendlyName: 'Vore 0MI',
+			description: 'A gas-shrouded giant with sweeping cloud bands and a single moon.',
+			diameter: 17,
+			segments: 32,
+			lod: defaultLod,
+			material: {
+				type: 'pbr',
+				albedoTexture: {texture: 'dgnyre_albedo'},
+				bumpTexture: {texture: 'dgnyre_bump'},
+				metallic: 0.0,
+				roughness: 1.0,
+			},
+			clouds: [
+				{opacityTexture: {texture: 'dgnyre_clouds'}, altitude: 0.05},
+			],
+			atmosphere: {color: '#6FA8FF', altitude: 0.08, intensity: 1.2},
+			orbit: {semiMajorAxis: 225, eccentricity: 0.04, inclination: 3, longitudeOfAscendingNode: 150, argumentOfPeriapsis: 10, meanAnomalyAtEpoch: -5},
+			rotation: [0, 0, Math.PI * 0.21],
+			gravitationalParameter: 0.5,
+		},
+		{
+			type: 'moon',
+			inspectorName: 'planet4_moon1',
+			friendlyName: 'Tisiri',
+			description: 'A cratered, airless moon locked in a slow orbit around Vore 0MI.',
+			parent: 'planet4',
+			diameter: 1.4,
+			segments: 20,
+			lod: defaultLod,
+			material: {
+				type: 'pbrMetallicRoughness',
+				baseColor: '#9A9590',
+				normalTexture: {texture: 'ertaale_bump', level: 0.5},
+				metallic: 0.0,
+				roughness: 0.9,
+			},
+			orbit: {semiMajorAxis: 18, eccentricity: 0.03, inclination: 5, meanAnomalyAtEpoch: 120},
+			highlightColor: '#3D3D3D',
+		},
+		{
+			type: 'planet',
+			inspectorName: 'planet5',
+			friendlyName: 'Beta Stan VI',
+			description: 'A frozen world beneath a thin veil of toxic haze.',
+			diameter: 3,
+			segments: 32,
+			lod: defaultLod,
+			material: {
+				type: 'pbr',
+				albedoTexture: {texture: 'iceworld_albedo'},
+				bumpTexture: {texture: 'iceworld_bump'},
+				metallic: 0.0,
+				roughness: 1.0,
+			},
+			clouds: [
+				{opacityTexture: {texture: 'toxic_clouds', level: 0.1}, altitude: 0.01},
+			],
+			atmosphere: {color: '#B8F2FF', altitude: 0.04},
+			orbit: {semiMajorAxis: 205, eccentricity: 0.08, inclination: 5, longitudeOfAscendingNode: 280, argumentOfPeriapsis: 0, meanAnomalyAtEpoch: -15},
+			rotation: [0, 0, -(Math.PI * 0.12)],
+		},
+	],
+};
@@ -0,0 +1,635 @@
+/**
+ * Serializable solar system definitions.
+ *
+ * A definition describes every body of a system (size, material, LOD levels, clouds, atmosphere, placement, highlight) as plain
+ * data so that new systems can be shipped as JSON files instead of code. Use `parseSolarSystemDefinition` to validate
+ * untrusted input before handing it to the `Renderer`.
+ */
+
+import { bundledAssets, isBundledAssetKey } from '../Assets/AssetRegistry';
+import { ColorStop, proceduralBiomes } from '../Procedural/Biomes';
+import { CloudCoverOptions, PlanetSurfaceOptions } from '../Procedural/PlanetSurface';
+
+export type SolarBodyType = 'star' | 'planet' | 'moon';
+
+export type Vector3Tuple = [number, number, number];
+
+export interface LodLevelDefinition {
+	level: number;
+	segments: number;
+}
+
+export interface LodDefinition {
+	useLODScreenCoverage?: boolean;
+	levels: LodLevelDefinition[];
+}
+
+/**
+ * Texture usage within a material. `texture` is a bundled asset key or a key of `SolarSystemDefinition.textures`.
+ *
+ * `K` narrows the allowed keys throughout a definition, e.g. definitions written in code use `BundledAssetKey` so that
+ * unknown keys are compile time errors.
+ */
+export interface TextureReference<K extends string = string> {
+	texture: K;
+	level?: number;
+}
+
+export interface StarMaterialDefinition<K extends string = string> {
+	type: 'star';
+	emissiveTexture: TextureReference<K>;
+}
+
+export interface PbrMaterialDefinition<K extends string = string> {
+	type: 'pbr';
+	albedoTexture?: TextureReference<K>;
+	bumpTexture?: TextureReference<K>;
+	metallic?: number;
+	roughness?: number;
+	specularIntensity?: number;
+}
+
+export interface PbrMetallicRoughnessMaterialDefinition<K extends string = string> {
+	type: 'pbrMetallicRoughness';
+	/** Hex colour, e.g. `#008080` */
+	baseColor?: string;
+	normalTexture?: TextureReference<K>;
+	metallic?: number;
+	roughness?: number;
+}
+
+/**
+ * Surface generated from a seed at load time instead of textures. See `src/Procedural/PlanetSurface.ts` for the options.
+ */
+export interface ProceduralMaterialDefinition extends PlanetSurfaceOptions {
+	type: 'procedural';
+	specularIntensity?: number;
+}
+
+export type MaterialDefinition<K extends string = string> = StarMaterialDefinition<K> | PbrMaterialDefinition<K> | PbrMetallicRoughnessMaterialDefinition<K> | ProceduralMaterialDefinition;
+
+/** Exactly one of `opacityTexture` and `procedural` is required */
+export interface CloudLayerDefinition<K extends string = string> {
+	opacityTexture?: TextureReference<K>;
+	/** Generates the cloud cover from seeded noise instead of a texture */
+	procedural?: CloudCoverOptions;
+	/** Height of the cloud layer above the surface as a fraction of the body diameter */
+	altitude: number;
+	/** Radians per simulated second, defaults to a slow westward drift */
+	rotationSpeed?: number;
+}
+
+/** Rim glow approximating atmospheric scattering */
+export interface AtmosphereDefinition {
+	/** Hex colour of the scattered light */
+	color: string;
+	/** Thickness of the atmosphere as a fraction of the body diameter */
+	altitude?: number;
+	intensity?: number;
+	/** Higher values push the glow further towards the limb */
+	power?: number;
+}
+
+/**
+ * Planetary ring system. Radii are in scene units measured from the body's centre.
+ */
+export interface RingDefinition<K extends string = string> {
+	/** `mesh` renders a flat textured annulus, `particles` renders individual rocks. Defaults to `mesh`. */
+	mode?: 'mesh' | 'particles';
+	innerRadius: number;
+	outerRadius: number;
+	/**
+	 * Radial strip texture (inner edge on the left, outer edge on the right) providing colour and opacity. When omitted a
+	 * banded texture is generated from `color` and `seed`.
+	 */
+	texture?: TextureReference<K>;
+	/** Hex colour, tints the texture */
+	color?: string;
+	opacity?: number;
+	/** Rotation of the ring plane relative to the body's equator in radians */
+	tilt?: Vector3Tuple;
+	/** Number of rocks in particle mode */
+	particleCount?: number;
+	/** Diameter of the largest rock in particle mode */
+	particleSize?: number;
+	/** Seed for the generated band texture or particle placement */
+	seed?: number;
+}
+
+/** Second line of a label. `distance` is the current distance from the star. */
+export type LabelSubtitle = 'distance' | 'orbitalPeriod' | 'type';
+
+/**
+ * Name tag drawn next to a body. Every body gets a white label unless its definition says otherwise.
+ */
+export interface LabelDefinition<K extends string = string> {
+	/** Set to false to leave the body without a label */
+	visible?: boolean;
+	/** Hex colour of the text and the leader line */
+	color?: string;
+	fontFamily?: string;
+	fontSize?: number;
+	/** Small image in front of the name, only `texture` is used */
+	icon?: TextureReference<K>;
+	subtitle?: LabelSubtitle;
+	/** Clicking the label focuses the body just like clicking the body itself. Defaults to true. */
+	clickable?: boolean;
+}
+
+/**
+ * Keplerian orbit around the body's parent. Angles are in degrees. The period (seconds of simulation time) is derived from
+ * the parent's gravitational parameter when omitted.
+ */
+export interface OrbitDefinition {
+	semiMajorAxis: number;
+	eccentricity?: number;
+	inclination?: number;
+	longitudeOfAscendingNode?: number;
+	argumentOfPeriapsis?: number;
+	meanAnomalyAtEpoch?: number;
+	period?: number;
+}
+
+export interface SolarBodyDefinition<K extends string = string> {
+	type: SolarBodyType;
+	inspectorName: string;
+	friendlyName: string;
+	/** Free text shown in the info panel when the body is focused */
+	description?: string;
+	/**
+	 * `inspectorName` of the body this one orbits. Defaults to the star for planets and is required for moons. Parents,
+	 * including the star, must be listed before their satellites. The orbit plane follows the parent's axial tilt.
+	 */
+	parent?: string;
+	diameter: number;
+	segments: number;
+	lod?: LodDefinition;
+	material: MaterialDefinition<K>;
+	clouds?: CloudLayerDefinition<K>[];
+	atmosphere?: AtmosphereDefinition;
+	rings?: RingDefinition<K>;
+	/** Fixed position relative to the parent body (or the solar system origin). Mutually exclusive with `orbit`. */
+	position?: Vector3Tuple;
+	orbit?: OrbitDefinition;
+	/** Gravitational parameter (G * M) of this body, used to derive the orbital period of bodies orbiting it */
+	gravitationalParameter?: number;
+	/** Initial rotation (axial tilt) in radians */
+	rotation?: Vector3Tuple;
+	/** Hex colour used for the highlight layer glow */
+	highlightColor?: string;
+	layerMask?: number;
+	label?: LabelDefinition<K>;
+}
+
+export interface SolarSystemDefinition<K extends string = string> {
+	name: string;
+	/**
+	 * Texture key to URL for textures that are not bundled with the app (see `src/Assets/AssetRegistry.ts`). Relative URLs
+	 * are resolved against the URL the definition was loaded from.
+	 */
+	textures?: Record<string, string>;
+	/** Which system of the procedural galaxy this is, the galaxy is placed around it. Defaults to 0, the home system. */
+	starSystemId?: number;
+	bodies: SolarBodyDefinition<K>[];
+}
+
+export class SolarSystemDefinitionError extends Error {
+	
+	constructor(public path: string, message: string) {
+		super(`Invalid solar system definition at "${path}": ${message}`);
+		this.name = 'SolarSystemDefinitionError';
+	}
+	
+}
+
+const bodyTypes: SolarBodyType[] = ['star', 'planet', 'moon'];
+const materialTypes: MaterialDefinition['type'][] = ['star', 'pbr', 'pbrMetallicRoughness', 'procedural'];
+const labelSubtitles: LabelSubtitle[] = ['distance', 'orbitalPeriod', 'type'];
+const ringModes: NonNullable<RingDefinition['mode']>[] = ['mesh', 'particles'];
+const hexColorPattern = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Validates an untrusted value (e.g. the result of `JSON.parse`) and returns it as a typed definition.
+ * Throws a `SolarSystemDefinitionError` describing the first problem found.
+ */
+export function parseSolarSystemDefinition(value: unknown, baseUrl?: string): SolarSystemDefinition {
+	
+	const root = expectObject(value, '$');
+	
+	const name = expectString(root.name, '$.name');
+	
+	const texturesObj = root.textures === undefined ? {} : expectObject(root.textures, '$.textures');
+	const textures: Record<string, string> = {};
+	Object.keys(texturesObj).forEach(key => {
+		const url = expectString(texturesObj[key], `$.textures.${key}`);
+		textures[key] = baseUrl ? (new URL(url, baseUrl)).href : url;
+	});
+	
+	const bodies = expectArray(root.bodies, '$.bodies').map((body, i) => parseBody(body, `$.bodies[${i}]`, textures));
+	
+	if (bodies.length === 0) {
+		throw new SolarSystemDefinitionError('$.bodies', 'at least one body is required');
+	}
+	
+	if (bodies.filter(body => body.type === 'star').length !== 1) {
+		throw new SolarSystemDefinitionError('$.bodies', 'exactly one body of type "star" is required');
+	}
+	
+	const seenNames = new Set<string>();
+	bodies.forEach((body, i) => {
+		if (seenNames.has(body.inspectorName)) {
+			throw new SolarSystemDefinitionError(`$.bodies[${i}].inspectorName`, `duplicate inspectorName "${body.inspectorName}"`);
+		}
+		
+		if (body.type === 'star' && body.parent !== undefined) {
+			throw new SolarSystemDefinitionError(`$.bodies[${i}].parent`, 'a star cannot have a parent');
+		}
+		
+		if (body.type === 'moon' && body.parent === undefined) {
+			throw new SolarSystemDefinitionError(`$.bodies[${i}].parent`, 'moons must define the body they orbit');
+		}
+		
+		// Requiring parents to come first also rules out cycles
+		if (body.parent !== undefined && !seenNames.has(body.parent)) {
+			throw new SolarSystemDefinitionError(`$.bodies[${i}].parent`, `unknown parent "${body.parent}", parents must be listed before their satellites`);
+		}
+		
+		// Bodies without a parent orbit the star, which makes it their parent too
+		if (body.type !== 'star' && body.parent === undefined && !bodies.slice(0, i).some(other => other.type === 'star')) {
+			throw new SolarSystemDefinitionError(`$.bodies[${i}]`, 'the star must be listed before the bodies orbiting it');
+		}
+		
+		seenNames.add(body.inspectorName);
+	});
+	
+	const starSystemId = root.starSystemId === undefined ? undefined : expectNumber(root.starSystemId, '$.starSystemId');
+	
+	return { name, textures, starSystemId, bodies };
+}
+
+/**
+ * Keys of every texture the bodies of a definition reference, without duplicates
+ */
+export function getReferencedTextureKeys(definition: SolarSystemDefinition): string[] {
+	const references: (undefined | TextureReference)[] = [];
+	
+	definition.bodies.forEach(body => {
+		const { material } = body;
+		
+		switch (material.type) {
+			case 'star':
+				references.push(material.emissiveTexture);
+				break;
+			case 'pbr':
+				references.push(material.albedoTexture, material.bumpTexture);
+				break;
+			case 'pbrMetallicRoughness':
+				references.push(material.normalTexture);
+				break;
+		}
+		
+		body.clouds?.forEach(cloudLayer => references.push(cloudLayer.opacityTexture));
+		references.push(body.rings?.texture, body.label?.icon);
+	});
+	
+	const keys = new Set<string>();
+	references.forEach(reference => reference && keys.add(reference.texture));
+	return Array.from(keys);
+}
+
+function parseBody(value: unknown, path: string, textures: Record<string, string>): SolarBodyDefinition {
+	
+	const obj = expectObject(value, path);
+	
+	const body: SolarBodyDefinition = {
+		type: expectOneOf(obj.type, bodyTypes, `${path}.type`),
+		inspectorName: expectString(obj.inspectorName, `${path}.inspectorName`),
+		friendlyName: expectString(obj.friendlyName, `${path}.friendlyName`),
+		description: obj.description === undefined ? undefined : expectString(obj.description, `${path}.description`),
+		parent: obj.parent === undefined ? undefined : expectString(obj.parent, `${path}.parent`),
+		diameter: expectPositiveNumber(obj.diameter, `${path}.diameter`),
+		segments: expectPositiveNumber(obj.segments, `${path}.segments`),
+		material: parseMaterial(obj.material, `${path}.material`, textures),
+	};
+	
+	if (obj.lod !== undefined) {
+		const lodObj = expectObject(obj.lod, `${path}.lod`);
+		body.lod = {
+			useLODScreenCoverage: lodObj.useLODScreenCoverage === undefined ? undefined : expectBoolean(lodObj.useLODScreenCoverage, `${path}.lod.useLODScreenCoverage`),
+			levels: expectArray(lodObj.levels, `${path}.lod.levels`).map((level, i) => {
+				const levelPath = `${path}.lod.levels[${i}]`;
+				const levelObj = expectObject(level, levelPath);
+				return {
+					level: expectPositiveNumber(levelObj.level, `${levelPath}.level`),
+					segments: expectPositiveNumber(levelObj.segments, `${levelPath}.segments`),
+				};
+			}),
+		};
+	}
+	
+	if (obj.clouds !== undefined) {
+		body.clouds = expectArray(obj.clouds, `${path}.clouds`).map((cloud, i) => {
+			const cloudPath = `${path}.clouds[${i}]`;
+			const cloudObj = expectObject(cloud, cloudPath);
+			
+			if ((cloudObj.opacityTexture === undefined) === (cloudObj.procedural === undefined)) {
+				throw new SolarSystemDefinitionError(cloudPath, 'expected either "opacityTexture" or "procedural"');
+			}
+			
+			return {
+				opacityTexture: cloudObj.opacityTexture === undefined ? undefined : parseTextureReference(cloudObj.opacityTexture, `${cloudPath}.opacityTexture`, textures),
+				procedural: cloudObj.procedural === undefined ? undefined : parseCloudCover(cloudObj.procedural, `${cloudPath}.procedural`),
+				altitude: expectNumber(cloudObj.altitude, `${cloudPath}.altitude`),
+				rotationSpeed: cloudObj.rotationSpeed === undefined ? undefined : expectNumber(cloudObj.rotationSpeed, `${cloudPath}.rotationSpeed`),
+			};
+		});
+	}
+	
+	if (obj.atmosphere !== undefined) {
+		const atmospherePath = `${path}.atmosphere`;
+		const atmosphereObj = expectObject(obj.atmosphere, atmospherePath);
+		body.atmosphere = {
+			color: expectHexColor(atmosphereObj.color, `${atmospherePath}.color`),
+			altitude: atmosphereObj.altitude === undefined ? undefined : expectPositiveNumber(atmosphereObj.altitude, `${atmospherePath}.altitude`),
+			intensity: atmosphereObj.intensity === undefined ? undefined : expectPositiveNumber(atmosphereObj.intensity, `${atmospherePath}.intensity`),
+			power: atmosphereObj.power === undefined ? undefined : expectPositiveNumber(atmosphereObj.power, `${atmospherePath}.power`),
+		};
+	}
+	
+	if (obj.rings !== undefined) {
+		body.rings = parseRings(obj.rings, `${path}.rings`, textures);
+		
+		if (body.rings.innerRadius < body.diameter / 2) {
+			throw new SolarSystemDefinitionError(`${path}.rings.innerRadius`, 'rings cannot start inside the body');
+		}
+	}
+	
+	if (obj.position !== undefined) {
+		body.position = expectVector3(obj.position, `${path}.position`);
+	}
+	
+	if (obj.orbit !== undefined) {
+		if (body.position) {
+			throw new SolarSystemDefinitionError(`${path}.orbit`, 'a body cannot define both "position" and "orbit"');
+		}
+		body.orbit = parseOrbit(obj.orbit, `${path}.orbit`);
+	}
+	
+	if (obj.gravitationalParameter !== undefined) {
+		body.gravitationalParameter = expectPositiveNumber(obj.gravitationalParameter, `${path}.gravitationalParameter`);
+	}
+	
+	if (obj.rotation !== undefined) {
+		body.rotation = expectVector3(obj.rotation, `${path}.rotation`);
+	}
+	
+	if (obj.highlightColor !== undefined) {
+		body.highlightColor = expectHexColor(obj.highlightColor, `${path}.highlightColor`);
+	}
+	
+	if (obj.layerMask !== undefined) {
+		body.layerMask = expectNumber(obj.layerMask, `${path}.layerMask`);
+	}
+	
+	if (obj.label !== undefined) {
+		body.label = parseLabel(obj.label, `${path}.label`, textures);
+	}
+	
+	return body;
+}
+
+function parseLabel(value: unknown, path: string, textures: Record<string, string>): LabelDefinition {
+	
+	const obj = expectObject(value, path);
+	
+	return {
+		visible: obj.visible === undefined ? undefined : expectBoolean(obj.visible, `${path}.visible`),
+		color: obj.color === undefined ? undefined : expectHexColor(obj.color, `${path}.color`),
+		fontFamily: obj.fontFamily === undefined ? undefined : expectString(obj.fontFamily, `${path}.fontFamily`),
+		fontSize: obj.fontSize === undefined ? undefined : expectPositiveNumber(obj.fontSize, `${path}.fontSize`),
+		icon: obj.icon === undefined ? undefined : parseTextureReference(obj.icon, `${path}.icon`, textures),
+		subtitle: obj.subtitle === undefined ? undefined : expectOneOf(obj.subtitle, labelSubtitles, `${path}.subtitle`),
+		clickable: obj.clickable === undefined ? undefined : expectBoolean(obj.clickable, `${path}.clickable`),
+	};
+}
+
+function parseRings(value: unknown, path: string, textures: Record<string, string>): RingDefinition {
+	
+	const obj = expectObject(value, path);
+	const optionalNumber = (key: string) => obj[key] === undefined ? undefined : expectNumber(obj[key], `${path}.${key}`);
+	const optionalPositiveNumber = (key: string) => obj[key] === undefined ? undefined : expectPositiveNumber(obj[key], `${path}.${key}`);
+	
+	const rings: RingDefinition = {
+		mode: obj.mode === undefined ? undefined : expectOneOf(obj.mode, ringModes, `${path}.mode`),
+		innerRadius: expectPositiveNumber(obj.innerRadius, `${path}.innerRadius`),
+		outerRadius: expectPositiveNumber(obj.outerRadius, `${path}.outerRadius`),
+		texture: obj.texture === undefined ? undefined : parseTextureReference(obj.texture, `${path}.texture`, textures),
+		color: obj.color === undefined ? undefined : expectHexColor(obj.color, `${path}.color`),
+		opacity: optionalNumber('opacity'),
+		tilt: obj.tilt === undefined ? undefined : expectVector3(obj.tilt, `${path}.tilt`),
+		particleCount: optionalPositiveNumber('particleCount'),
+		particleSize: optionalPositiveNumber('particleSize'),
+		seed: optionalNumber('seed'),
+	};
+	
+	if (rings.outerRadius <= rings.innerRadius) {
+		throw new SolarSystemDefinitionError(`${path}.outerRadius`, 'expected outerRadius to be greater than innerRadius');
+	}
+	
+	return rings;
+}
+
+function parseOrbit(value: unknown, path: string): OrbitDefinition {
+	
+	const obj = expectObject(value, path);
+	const optionalNumber = (key: string) => obj[key] === undefined ? undefined : expectNumber(obj[key], `${path}.${key}`);
+	
+	const orbit: OrbitDefinition = {
+		semiMajorAxis: expectPositiveNumber(obj.semiMajorAxis, `${path}.semiMajorAxis`),
+		eccentricity: optionalNumber('eccentricity'),
+		inclination: optionalNumber('inclination'),
+		longitudeOfAscendingNode: optionalNumber('longitudeOfAscendingNode'),
+		argumentOfPeriapsis: optionalNumber('argumentOfPeriapsis'),
+		meanAnomalyAtEpoch: optionalNumber('meanAnomalyAtEpoch'),
+		period: obj.period === undefined ? undefined : expectPositiveNumber(obj.period, `${path}.period`),
+	};
+	
+	if (orbit.eccentricity !== undefined && (orbit.eccentricity < 0 || orbit.eccentricity >= 1)) {
+		throw new SolarSystemDefinitionError(`${path}.eccentricity`, 'expected a number from 0 (inclusive) to 1 (exclusive), only closed orbits are supported');
+	}
+	
+	return orbit;
+}
+
+function parseMaterial(value: unknown, path: string, textures: Record<string, string>): MaterialDefinition {
+	
+	const obj = expectObject(value, path);
+	const type = expectOneOf(obj.type, materialTypes, `${path}.type`);
+	
+	const optionalTexture = (key: string) => obj[key] === undefined ? undefined : parseTextureReference(obj[key], `${path}.${key}`, textures);
+	const optionalNumber = (key: string) => obj[key] === undefined ? undefined : expectNumber(obj[key], `${path}.${key}`);
+	
+	switch (type) {
+		case 'star':
+			return {
+				type,
+				emissiveTexture: parseTextureReference(obj.emissiveTexture, `${path}.emissiveTexture`, textures),
+			};
+		case 'pbr':
+			return {
+				type,
+				albedoTexture: optionalTexture('albedoTexture'),
+				bumpTexture: optionalTexture('bumpTexture'),
+				metallic: optionalNumber('metallic'),
+				roughness: optionalNumber('roughness'),
+				specularIntensity: optionalNumber('specularIntensity'),
+			};
+		case 'pbrMetallicRoughness':
+			return {
+				type,
+				baseColor: obj.baseColor === undefined ? undefined : expectHexColor(obj.baseColor, `${path}.baseColor`),
+				normalTexture: optionalTexture('normalTexture'),
+				metallic: optionalNumber('metallic'),
+				roughness: optionalNumber('roughness'),
+			};
+		case 'procedural':
+			return {
+				type,
+				seed: expectNumber(obj.seed, `${path}.seed`),
+				biome: obj.biome === undefined ? undefined : expectOneOf(obj.biome, proceduralBiomes, `${path}.biome`),
+				colorRamp: obj.colorRamp === undefined ? undefined : parseColorRamp(obj.colorRamp, `${path}.colorRamp`),
+				seaLevel: obj.seaLevel === undefined ? undefined : expectFraction(obj.seaLevel, `${path}.seaLevel`),
+				featureScale: obj.featureScale === undefined ? undefined : expectPositiveNumber(obj.featureScale, `${path}.featureScale`),
+				bumpStrength: optionalNumber('bumpStrength'),
+				resolution: obj.resolution === undefined ? undefined : expectResolution(obj.resolution, `${path}.resolution`),
+				specularIntensity: optionalNumber('specularIntensity'),
+			};
+	}
+}
+
+function parseColorRamp(value: unknown, path: string): ColorStop[] {
+	const stops = expectArray(value, path).map((stop, i) => {
+		const stopObj = expectObject(stop, `${path}[${i}]`);
+		return {
+			height: expectFraction(stopObj.height, `${path}[${i}].height`),
+			color: expectHexColor(stopObj.color, `${path}[${i}].color`),
+		};
+	});
+	
+	if (stops.length === 0) {
+		throw new SolarSystemDefinitionError(path, 'at least one colour stop is required');
+	}
+	
+	return stops;
+}
+
+function parseCloudCover(value: unknown, path: string): CloudCoverOptions {
+	const obj = expectObject(value, path);
+	return {
+		seed: expectNumber(obj.seed, `${path}.seed`),
+		coverage: obj.coverage === undefined ? undefined : expectFraction(obj.coverage, `${path}.coverage`),
+		resolution: obj.resolution === undefined ? undefined : expectResolution(obj.resolution, `${path}.resolution`),
+	};
+}
+
+function parseTextureReference(value: unknown, path: string, textures: Record<string, string>): TextureReference {
+	
+	const obj = expectObject(value, path);
+	const texture = expectString(obj.texture, `${path}.texture`);
+	
+	if (!Object.prototype.hasOwnProperty.call(textures, texture) && !isBundledAssetKey(texture)) {
+		const knownKeys = Object.keys(textures).concat(Object.keys(bundledAssets));
+		throw new SolarSystemDefinitionError(`${path}.texture`, `unknown texture "${texture}", expected one of: ${knownKeys.join(', ')}`);
+	}
+	
+	return {
+		texture,
+		level: obj.level === undefined ? undefined : expectNumber(obj.level, `${path}.level`),
+	};
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		throw new SolarSystemDefinitionError(path, 'expected an object');
+	}
+	return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+	if (!Array.isArray(value)) {
+		throw new SolarSystemDefinitionError(path, 'expected an array');
+	}
+	return value;
+}
+
+function expectString(value: unknown, path: string): string {
+	if (typeof value !== 'string' || value.length === 0) {
+		throw new SolarSystemDefinitionError(path, 'expected a non-empty string');
+	}
+	return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+	if (typeof value !== 'boolean') {
+		throw new SolarSystemDefinitionError(path, 'expected a boolean');
+	}
+	return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+	if (typeof value !== 'number' || !isFinite(value)) {
+		throw new SolarSystemDefinitionError(path, 'expected a finite number');
+	}
+	return value;
+}
+
+function expectPositiveNumber(value: unknown, path: string): number {
+	const num = expectNumber(value, path);
+	if (num <= 0) {
+		throw new SolarSystemDefinitionError(path, 'expected a number greater than 0');
+	}
+	return num;
+}
+
+function expectFraction(value: unknown, path: string): number {
+	const num = expectNumber(value, path);
+	if (num < 0 || num > 1) {
+		throw new SolarSystemDefinitionError(path, 'expected a number between 0 and 1');
+	}
+	return num;
+}
+
+/** Generated texture widths, capped so a typo cannot stall loading for minutes */
+function expectResolution(value: unknown, path: string): number {
+	const num = expectPositiveNumber(value, path);
+	if (num < 8 || num > 4096 || Math.round(num) !== num) {
+		throw new SolarSystemDefinitionError(path, 'expected a whole number between 8 and 4096');
+	}
+	return num;
+}
+
+function expectOneOf<T extends string>(value: unknown, allowed: readonly T[], path: string): T {
+	if (typeof value !== 'string' || (allowed as readonly string[]).indexOf(value) === -1) {
+		throw new SolarSystemDefinitionError(path, `expected one of: ${allowed.join(', ')}`);
+	}
+	return value as T;
+}
+
+function expectHexColor(value: unknown, path: string): string {
+	if (typeof value !== 'string' || !hexColorPattern.test(value)) {
+		throw new SolarSystemDefinitionError(path, 'expected a hex colour such as "#3366FF"');
+	}
+	return value;
+}
+
+function expectVector3(value: unknown, path: string): Vector3Tuple {
+	const arr = expectArray(value, path);
+	if (arr.length !== 3) {
+		throw new SolarSystemDefinitionError(path, 'expected an array of 3 numbers');
+	}
+	return [
+		expectNumber(arr[0], `${path}[0]`),
+		expectNumber(arr[1], `${path}[1]`),
+		expectNumber(arr[2], `${path}[2]`),
+	];
+}
@@ -0,0 +1,106 @@
+import { Vector3 } from "@babylonjs/core";
+
+import { OrbitDefinition } from './Definition';
+
+/** Gravitational parameter (G * M) used for stars that do not define their own. Tuned so planets ~200 units out take roughly half an hour per orbit. */
+export const defaultGravitationalParameter = 80;
+
+/** Gravitational parameter used for planets and moons that have satellites but do not define their own */
+export const defaultSatelliteHostGravitationalParameter = 0.5;
+
+const degreesToRadians = Math.PI / 180;
+const twoPi = Math.PI * 2;
+
+/**
+ * Classical Keplerian orbital elements. Angles are in radians and the period is in seconds of simulation time.
+ *
+ * The reference plane is the XZ plane (Babylon.js is Y-up) and the reference direction is +X.
+ */
+export interface OrbitalElements {
+	semiMajorAxis: number;
+	eccentricity: number;
+	inclination: number;
+	longitudeOfAscendingNode: number;
+	argumentOfPeriapsis: number;
+	meanAnomalyAtEpoch: number;
+	period: number;
+}
+
+/**
+ * Orbital period from Kepler's third law
+ */
+export function getOrbitalPeriod(semiMajorAxis: number, gravitationalParameter: number) {
+	return twoPi * Math.sqrt(Math.pow(semiMajorAxis, 3) / gravitationalParameter);
+}
+
+/**
+ * Converts a (degree based) orbit definition to orbital elements. The period is derived from the parent's gravitational
+ * parameter unless the definition overrides it.
+ */
+export function createOrbitalElements(orbitDefinition: OrbitDefinition, gravitationalParameter: number): OrbitalElements {
+	return {
+		semiMajorAxis: orbitDefinition.semiMajorAxis,
+		eccentricity: orbitDefinition.eccentricity ?? 0,
+		inclination: (orbitDefinition.inclination ?? 0) * degreesToRadians,
+		longitudeOfAscendingNode: (orbitDefinition.longitudeOfAscendingNode ?? 0) * degreesToRadians,
+		argumentOfPeriapsis: (orbitDefinition.argumentOfPeriapsis ?? 0) * degreesToRadians,
+		meanAnomalyAtEpoch: (orbitDefinition.meanAnomalyAtEpoch ?? 0) * degreesToRadians,
+		period: orbitDefinition.period ?? getOrbitalPeriod(orbitDefinition.semiMajorAxis, gravitationalParameter),
+	};
+}
+
+/**
+ * Solves Kepler's equation `M = E - e * sin(E)` for the eccentric anomaly `E` using Newton's method
+ */
+export function solveKeplerEquation(meanAnomaly: number, eccentricity: number, tolerance: number = 1e-10, maxIterations: number = 30) {
+	
+	// Normalize to [-PI, PI] which keeps the iteration well behaved
+	const m = meanAnomaly - (twoPi * Math.round(meanAnomaly / twoPi));
+	
+	// Highly eccentric orbits converge more reliably when starting from PI
+	let e = eccentricity < 0.8 ? m : Math.PI * Math.sign(m || 1);
+	
+	for (let i = 0; i < maxIterations; i++) {
+		const delta = (e - (eccentricity * Math.sin(e)) - m) / (1 - (eccentricity * Math.cos(e)));
+		e -= delta;
+		
+		if (Math.abs(delta) < tolerance) {
+			break;
+		}
+	}
+	
+	return e;
+}
+
+/**
+ * Position relative to the orbited body at the given simulation time (in seconds since epoch)
+ */
+export function getOrbitalPosition(elements: OrbitalElements, time: number, result: Vector3 = new Vector3()) {
+	
+	const { semiMajorAxis: a, eccentricity: ecc } = elements;
+	
+	const meanAnomaly = elements.meanAnomalyAtEpoch + (twoPi * (time / elements.period));
+	const eccentricAnomaly = solveKeplerEquation(meanAnomaly, ecc);
+	
+	// Position within the orbital plane, with periapsis along +x
+	const px = a * (Math.cos(eccentricAnomaly) - ecc);
+	const py = a * Math.sqrt(1 - (ecc * ecc)) * Math.sin(eccentricAnomaly);
+	
+	// Rotate by argument of periapsis, inclination and longitude of ascending node
+	const cosW = Math.cos(elements.argumentOfPeriapsis);
+	const sinW = Math.sin(elements.argumentOfPeriapsis);
+	const cosI = Math.cos(elements.inclination);
+	const sinI = Math.sin(elements.inclination);
+	const cosO = Math.cos(elements.longitudeOfAscendingNode);
+	const sinO = Math.sin(elements.longitudeOfAscendingNode);
+	
+	const x = (px * cosW) - (py * sinW);
+	const y = (px * sinW) + (py * cosW);
+	
+	// The reference plane is XZ so the "up" component of the orbit maps to Y
+	result.x = (x * cosO) - (y * cosI * sinO);
+	result.z = (x * sinO) + (y * cosI * cosO);
+	result.y = y * sinI;
+	
+	return result;
+}
@@ -0,0 +1,135 @@
+import {
+	Color3,
+	Color4,
+	LinesMesh,
+	MeshBuilder,
+	Node,
+	Scene,
+	Vector3,
+} from "@babylonjs/core";
+
+import { getOrbitalPosition, OrbitalElements } from './Orbit';
+import type { TickVisibilityTarget } from '../Simulation/TickScheduler';
+
+/**
+ * Samples a full revolution of an orbit. The points are computed with the same function that positions the body so the
+ * drawn path always matches the actual motion.
+ */
+export function getOrbitPathPoints(elements: OrbitalElements, segments: number) {
+	const points: Vector3[] = [];
+	
+	for (let i = 0; i <= segments; i++) {
+		points.push(getOrbitalPosition(elements, (i / segments) * elements.period));
+	}
+	
+	return points;
+}
+
+export interface OrbitVisualOptions {
+	color: Color3;
+	/** Space the orbit is defined in, i.e. the parent of the orbiting body */
+	parent: null | Node;
+	/** Position of the orbited body within `parent` */
+	center: Vector3;
+	layerMask: number;
+	/** Number of line segments for the full ellipse */
+	pathSegments: number;
+	/** Length of the motion trail as a fraction of a full orbit */
+	trailLength: number;
+	trailSegments: number;
+}
+
+/**
+ * Orbit ellipse plus a fading motion trail for a single body
+ */
+export class OrbitVisual {
+	
+	path: LinesMesh;
+	trail: LinesMesh;
+	
+	/**
+	 * Decides whether `update` has any effect on screen. The trail always lies on the path, whose bounds do not change as
+	 * the trail moves along, so culling checks the path.
+	 */
+	visibilityTarget: TickVisibilityTarget = {
+		isEnabled: () => this.trail.isEnabled(),
+		isVisible: true,
+		isInFrustum: frustumPlanes => this.path.isInFrustum(frustumPlanes),
+		getLOD: () => this.path,
+	};
+	
+	/** Opacity multiplier applied on top of visibility, used to fade out at galaxy scale */
+	private fade: number = 1;
+	private pathVisible: boolean = true;
+	private trailVisible: boolean = true;
+	private trailPoints: Vector3[];
+	
+	constructor(public name: string, public orbit: OrbitalElements, public opts: OrbitVisualOptions, scene: Scene) {
+		
+		this.path = MeshBuilder.CreateLines(`${name}_orbitPath`, { points: getOrbitPathPoints(orbit, opts.pathSegments), useVertexAlpha: false }, scene);
+		this.path.color = opts.color;
+		
+		// The trail fades from transparent at its tail to opaque at the body
+		this.trailPoints = Array.from({ length: opts.trailSegments + 1 }, () => Vector3.Zero());
+		const trailColors = this.trailPoints.map((_, i) => Color4.FromColor3(opts.color, i / opts.trailSegments));
+		this.trail = MeshBuilder.CreateLines(`${name}_orbitTrail`, { points: this.trailPoints, colors: trailColors, useVertexAlpha: true, updatable: true }, scene);
+		
+		[this.path, this.trail].forEach(lines => {
+			lines.parent = opts.parent;
+			lines.position.copyFrom(opts.center);
+			lines.layerMask = opts.layerMask;
+			lines.renderingGroupId = 1;
+			lines.isPickable = false;
+		});
+		
+		this.applyVisibility();
+	}
+	
+	setPathVisible(visible: boolean) {
+		this.pathVisible = visible;
+		this.applyVisibility();
+	}
+	
+	setTrailVisible(visible: boolean) {
+		this.trailVisible = visible;
+		this.applyVisibility();
+	}
+	
+	/**
+	 * @param fade 1 is fully visible, 0 is hidden
+	 */
+	setFade(fade: number) {
+		if (fade !== this.fade) {
+			this.fade = fade;
+			this.applyVisibility();
+		}
+	}
+	
+	/**
+	 * Recomputes the trail so that it ends at the body's position for the given simulation time
+	 */
+	update(time: number) {
+		if (!this.trail.isEnabled()) {
+			return;
+		}
+		
+		const { trailLength, trailSegments } = this.opts;
+		const trailDuration = trailLength * this.orbit.period;
+		
+		this.trailPoints.forEach((point, i) => getOrbitalPosition(this.orbit, time - trailDuration + ((i / trailSegments) * trailDuration), point));
+		MeshBuilder.CreateLines(this.trail.name, { points: this.trailPoints, instance: this.trail });
+	}
+	
+	dispose() {
+		this.path.dispose();
+		this.trail.dispose();
+	}
+	
+	private applyVisibility() {
+		this.path.alpha = this.fade;
+		this.trail.alpha = this.fade;
+		this.path.setEnabled(this.pathVisible && this.fade > 0);
+		this.trail.setEnabled(this.trailVisible && this.fade > 0);
+	}
+	
+}
@@ -0,0 +1,157 @@
+import {
+	Color3,
+	Matrix,
+	Mesh,
+	MeshBuilder,
+	Quaternion,
+	RawTexture,
+	Scene,
+	Texture,
+	Vector3,
+	VertexData,
+} from "@babylonjs/core";
+
+import { createSeededRandom, randomRange } from '../Utils/Random';
+
+export interface RingMeshOptions {
+	innerRadius: number;
+	outerRadius: number;
+	/** Number of radial subdivisions around the ring */
+	tessellation: number;
+}
+
+/**
+ * Creates a flat annulus in the XZ plane. The U texture coordinate runs from the inner (0) to the outer (1) edge so that a
+ * 1 pixel high strip texture can describe the radial colour and opacity of the ring.
+ */
+export function createRingMesh(name: string, opts: RingMeshOptions, scene: Scene) {
+	
+	const { innerRadius, outerRadius, tessellation } = opts;
+	
+	const positions: number[] = [];
+	const normals: number[] = [];
+	const uvs: number[] = [];
+	const indices: number[] = [];
+	
+	for (let i = 0; i <= tessellation; i++) {
+		const angle = (i / tessellation) * Math.PI * 2;
+		const cos = Math.cos(angle);
+		const sin = Math.sin(angle);
+		
+		positions.push(cos * innerRadius, 0, sin * innerRadius);
+		positions.push(cos * outerRadius, 0, sin * outerRadius);
+		normals.push(0, 1, 0, 0, 1, 0);
+		uvs.push(0, i / tessellation, 1, i / tessellation);
+		
+		if (i < tessellation) {
+			const base = i * 2;
+			indices.push(base, base + 1, base + 3);
+			indices.push(base, base + 3, base + 2);
+		}
+	}
+	
+	const vertexData = new VertexData();
+	vertexData.positions = positions;
+	vertexData.normals = normals;
+	vertexData.uvs = uvs;
+	vertexData.indices = indices;
+	
+	const mesh = new Mesh(name, scene);
+	vertexData.applyToMesh(mesh);
+	
+	return mesh;
+}
+
+export interface RingParticlesOptions {
+	innerRadius: number;
+	outerRadius: number;
+	count: number;
+	/** Diameter of the largest particle */
+	particleSize: number;
+	/** Maximum vertical scatter from the ring plane */
+	thickness: number;
+	seed: number;
+}
+
+/**
+ * Creates a ring made up of individual rocks, rendered as thin instances of a single low poly mesh so the whole ring is
+ * one draw call and still casts real shadows
+ */
+export function createRingParticles(name: string, opts: RingParticlesOptions, scene: Scene) {
+	
+	const random = createSeededRandom(opts.seed);
+	
+	const rock = MeshBuilder.CreateIcoSphere(name, { radius: opts.particleSize / 2, subdivisions: 1, flat: true }, scene);
+	
+	const matrices = new Float32Array(opts.count * 16);
+	const scaling = new Vector3();
+	const rotation = new Quaternion();
+	const translation = new Vector3();
+	const matrix = new Matrix();
+	
+	for (let i = 0; i < opts.count; i++) {
+		const angle = random() * Math.PI * 2;
+		// Bias towards the middle of the ring so the edges look softer
+		const radialPerc = (random() + random()) / 2;
+		const radius = opts.innerRadius + (radialPerc * (opts.outerRadius - opts.innerRadius));
+		
+		translation.set(Math.cos(angle) * radius, randomRange(random, -opts.thickness, opts.thickness) / 2, Math.sin(angle) * radius);
+		scaling.setAll(randomRange(random, 0.2, 1));
+		Quaternion.RotationYawPitchRollToRef(random() * Math.PI * 2, random() * Math.PI * 2, random() * Math.PI * 2, rotation);
+		
+		Matrix.ComposeToRef(scaling, rotation, translation, matrix);
+		matrix.copyToArray(matrices, i * 16);
+	}
+	
+	rock.thinInstanceSetBuffer('matrix', matrices, 16, true);
+	
+	return rock;
+}
+
+/**
+ * Generates a radial strip texture with randomized bands for rings that do not reference a texture. Colour is stored in
+ * RGB and band density in alpha.
+ */
+export function createRingBandTexture(name: string, color: Color3, seed: number, scene: Scene) {
+	
+	const width = 256;
+	const random = createSeededRandom(seed);
+	const data = new Uint8Array(width * 4);
+	
+	// A handful of overlapping bands with gaps between them, similar to what is seen on gas giants
+	const bands = Array.from({ length: 12 }, () => ({
+		center: random(),
+		width: randomRange(random, 0.02, 0.2),
+		density: randomRange(random, 0.3, 1),
+		shade: randomRange(random, 0.75, 1.1),
+	}));
+	
+	for (let x = 0; x < width; x++) {
+		const u = x / (width - 1);
+		
+		let density = 0;
+		let shade = 1;
+		bands.forEach(band => {
+			const falloff = Math.max(0, 1 - (Math.abs(u - band.center) / band.width));
+			if (falloff * band.density > density) {
+				density = falloff * band.density;
+				shade = band.shade;
+			}
+		});
+		
+		// Fade out towards both edges
+		const edgeFade = Math.min(1, u * 10, (1 - u) * 10);
+		
+		data[(x * 4) + 0] = Math.min(255, color.r * shade * 255);
+		data[(x * 4) + 1] = Math.min(255, color.g * shade * 255);
+		data[(x * 4) + 2] = Math.min(255, color.b * shade * 255);
+		data[(x * 4) + 3] = density * edgeFade * 255;
+	}
+	
+	const texture = RawTexture.CreateRGBATexture(data, width, 1, scene, false, false, Texture.BILINEAR_SAMPLINGMODE);
+	texture.name = name;
+	texture.hasAlpha = true;
+	texture.wrapU = Texture.CLAMP_ADDRESSMODE;
+	
+	return texture;
+}
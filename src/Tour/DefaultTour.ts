@@ -0,0 +1,53 @@
+import { TourDefinition } from './Definition';
+
+/**
+ * Unattended tour of the default solar system, meant for lobby screens and kiosks
+ */
+export const defaultTourDefinition: TourDefinition = {
+	name: 'Default system tour',
+	loop: true,
+	idleResumeSeconds: 30,
+	waypoints: [
+		{
+			body: 'Sun',
+			radius: 60,
+			beta: Math.PI / 2.4,
+			dwellSeconds: 6,
+			caption: 'Every body in this system circles a single star, following real Keplerian orbits.',
+		},
+		{
+			body: 'Penuaturn',
+			radius: 14,
+			alpha: -Math.PI / 3,
+			dwellSeconds: 8,
+			caption: 'Penuaturn wears a wide ring system that casts shadows across its surface.',
+		},
+		{
+			body: 'Lyke GS',
+			radius: 12,
+			alpha: Math.PI / 4,
+			dwellSeconds: 8,
+			caption: 'The rings of Lyke GS are made of thousands of individual rocks.',
+		},
+		{
+			body: 'Vore 0MI',
+			radius: 32,
+			beta: Math.PI / 2.2,
+			dwellSeconds: 8,
+			caption: 'Vore 0MI is wrapped in drifting clouds and a thin blue atmosphere.',
+		},
+		{
+			body: 'Tisiri',
+			radius: 5,
+			dwellSeconds: 6,
+			caption: 'Its moon Tisiri follows along on a tilted orbit of its own.',
+		},
+		{
+			body: 'Sun',
+			galaxyZoom: 1,
+			transitionSeconds: 5,
+			dwellSeconds: 8,
+			caption: 'From far enough away the whole system is just one of countless stars.',
+		},
+	],
+};
@@ -0,0 +1,160 @@
+/**
+ * Data format for scripted camera tours. Tours are plain JSON so they can be authored and swapped without a rebuild.
+ * Use `parseTourDefinition` to validate untrusted input.
+ */
+
+export interface TourWaypoint {
+	/** Friendly or inspector name of the body to fly to. The camera stays on the current body when omitted. */
+	body?: string;
+	/** Camera angles and distance in radians/world units. Unset values keep the current camera state. */
+	alpha?: number;
+	beta?: number;
+	radius?: number;
+	/**
+	 * How far to zoom out into galaxy view after arriving, from 0 (solar system) to 1 (fully shrunk galaxy). Cannot be
+	 * combined with `radius`.
+	 */
+	galaxyZoom?: number;
+	/** Flight duration in seconds, defaults to 3 */
+	transitionSeconds?: number;
+	/** Seconds to stay at the waypoint before moving on */
+	dwellSeconds: number;
+	/** Narration shown while travelling to and dwelling at the waypoint */
+	caption?: string;
+}
+
+export interface TourDefinition {
+	name: string;
+	/** Start over from the first waypoint after the last one */
+	loop?: boolean;
+	/** Seconds without user input after which a tour paused by the user resumes. Defaults to 30, 0 disables. */
+	idleResumeSeconds?: number;
+	waypoints: TourWaypoint[];
+}
+
+export class TourDefinitionError extends Error {
+	
+	constructor(public path: string, message: string) {
+		super(`Invalid tour definition at "${path}": ${message}`);
+		this.name = 'TourDefinitionError';
+	}
+	
+}
+
+/**
+ * Validates an untrusted value (e.g. the result of `JSON.parse`) and returns it as a typed tour.
+ * Throws a `TourDefinitionError` describing the first problem found.
+ */
+export function parseTourDefinition(value: unknown): TourDefinition {
+	
+	const root = expectObject(value, '$');
+	
+	const definition: TourDefinition = {
+		name: expectString(root.name, '$.name'),
+		waypoints: expectArray(root.waypoints, '$.waypoints').map((waypoint, i) => parseWaypoint(waypoint, `$.waypoints[${i}]`)),
+	};
+	
+	if (definition.waypoints.length === 0) {
+		throw new TourDefinitionError('$.waypoints', 'at least one waypoint is required');
+	}
+	
+	if (root.loop !== undefined) {
+		definition.loop = expectBoolean(root.loop, '$.loop');
+	}
+	
+	if (root.idleResumeSeconds !== undefined) {
+		definition.idleResumeSeconds = expectNonNegativeNumber(root.idleResumeSeconds, '$.idleResumeSeconds');
+	}
+	
+	return definition;
+}
+
+function parseWaypoint(value: unknown, path: string): TourWaypoint {
+	
+	const obj = expectObject(value, path);
+	
+	const waypoint: TourWaypoint = {
+		dwellSeconds: expectNonNegativeNumber(obj.dwellSeconds, `${path}.dwellSeconds`),
+	};
+	
+	if (obj.body !== undefined) {
+		waypoint.body = expectString(obj.body, `${path}.body`);
+	}
+	
+	if (obj.caption !== undefined) {
+		waypoint.caption = expectString(obj.caption, `${path}.caption`);
+	}
+	
+	(['alpha', 'beta'] as const).forEach(key => {
+		if (obj[key] !== undefined) {
+			waypoint[key] = expectNumber(obj[key], `${path}.${key}`);
+		}
+	});
+	
+	if (obj.radius !== undefined) {
+		waypoint.radius = expectNonNegativeNumber(obj.radius, `${path}.radius`);
+	}
+	
+	if (obj.transitionSeconds !== undefined) {
+		waypoint.transitionSeconds = expectNonNegativeNumber(obj.transitionSeconds, `${path}.transitionSeconds`);
+	}
+	
+	if (obj.galaxyZoom !== undefined) {
+		const galaxyZoom = expectNumber(obj.galaxyZoom, `${path}.galaxyZoom`);
+		
+		if (galaxyZoom < 0 || galaxyZoom > 1) {
+			throw new TourDefinitionError(`${path}.galaxyZoom`, 'must be between 0 and 1');
+		}
+		
+		if (waypoint.radius !== undefined) {
+			throw new TourDefinitionError(`${path}.galaxyZoom`, 'cannot be combined with radius');
+		}
+		
+		waypoint.galaxyZoom = galaxyZoom;
+	}
+	
+	return waypoint;
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		throw new TourDefinitionError(path, 'expected an object');
+	}
+	return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+	if (!Array.isArray(value)) {
+		throw new TourDefinitionError(path, 'expected an array');
+	}
+	return value;
+}
+
+function expectString(value: unknown, path: string): string {
+	if (typeof value !== 'string' || value.length === 0) {
+		throw new TourDefinitionError(path, 'expected a non-empty string');
+	}
+	return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+	if (typeof value !== 'boolean') {
+		throw new TourDefinitionError(path, 'expected a boolean');
+	}
+	return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+	if (typeof value !== 'number' || !isFinite(value)) {
+		throw new TourDefinitionError(path, 'expected a finite number');
+	}
+	return value;
+}
+
+function expectNonNegativeNumber(value: unknown, path: string): number {
+	const num = expectNumber(value, path);
+	if (num < 0) {
+		throw new TourDefinitionError(path, 'expected a number >= 0');
+	}
+	return num;
+}
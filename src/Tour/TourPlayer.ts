@@ -0,0 +1,341 @@
+import {
+	Animatable,
+	Animation,
+	EasingFunction,
+	KeyboardEventTypes,
+	KeyboardInfo,
+	Nullable,
+	Observable,
+	Observer,
+	PointerEventTypes,
+	PointerInfo,
+	QuinticEase,
+	Scene,
+} from "@babylonjs/core";
+
+import {
+	AdvancedDynamicTexture,
+	Control,
+	Rectangle,
+	TextBlock,
+} from "@babylonjs/gui";
+
+import type { CameraOrbitValues, FocusBodyOptions } from '../Renderer';
+import { TourDefinition, TourWaypoint } from './Definition';
+
+export type TourState = 'stopped' | 'playing' | 'paused';
+
+/**
+ * The camera operations a tour needs, implemented by the `Renderer`
+ */
+export interface TourCameraController {
+	focusBody(body: string, options: FocusBodyOptions): Promise<boolean>;
+	animateCameraOrbit(values: CameraOrbitValues, animationDurationSeconds: number): Promise<boolean>;
+	cancelFocus(): void;
+	getGalaxyZoomRadius(level: number): number;
+}
+
+export interface TourWaypointChange {
+	index: number;
+	waypoint: TourWaypoint;
+}
+
+const defaultTransitionSeconds = 3;
+const defaultIdleResumeSeconds = 30;
+const captionFadeSeconds = 0.6;
+const animationFps = 60;
+
+/**
+ * Plays a tour's waypoints one after another. Any pointer or keyboard input pauses the tour so the user can take over, and
+ * it picks up again from the current waypoint once the user has been idle for the tour's `idleResumeSeconds`.
+ */
+export class TourPlayer {
+	
+	/** Fires whenever the tour starts, pauses, resumes or stops */
+	onStateChangedObservable = new Observable<TourState>();
+	/** Fires when the tour starts heading to a waypoint */
+	onWaypointObservable = new Observable<TourWaypointChange>();
+	
+	tour: null | TourDefinition = null;
+	
+	private captionContainer: Rectangle;
+	private captionText: TextBlock;
+	private captionAnimation: Nullable<Animatable> = null;
+	
+	private _state: TourState = 'stopped';
+	private waypointIndex: number = 0;
+	/** Incremented to abandon the running waypoint sequence */
+	private runId: number = 0;
+	private cancelDwell: null | (() => void) = null;
+	/** Only pauses caused by user input resume by themselves */
+	private pausedByUserInput: boolean = false;
+	private idleTimeout: null | number = null;
+	private pointerObserver: Nullable<Observer<PointerInfo>>;
+	private keyboardObserver: Nullable<Observer<KeyboardInfo>>;
+	
+	constructor(public controller: TourCameraController, public advancedTexture: AdvancedDynamicTexture, public scene: Scene) {
+		
+		const captionContainer = new Rectangle('tourCaption');
+		captionContainer.background = 'rgba(5, 10, 30, 0.65)';
+		captionContainer.color = 'rgba(255, 255, 255, 0.3)';
+		captionContainer.thickness = 1;
+		captionContainer.cornerRadius = 8;
+		captionContainer.width = 0.6;
+		captionContainer.adaptHeightToChildren = true;
+		captionContainer.verticalAlignment = Control.VERTICAL_ALIGNMENT_TOP;
+		captionContainer.topInPixels = 24;
+		captionContainer.isPointerBlocker = false;
+		captionContainer.alpha = 0;
+		captionContainer.isVisible = false;
+		this.captionContainer = captionContainer;
+		
+		const captionText = new TextBlock('tourCaptionText');
+		captionText.color = 'white';
+		captionText.fontSize = 20;
+		captionText.fontFamily = 'Open Sans';
+		captionText.textWrapping = true;
+		captionText.resizeToFit = true;
+		captionText.paddingTopInPixels = 12;
+		captionText.paddingBottomInPixels = 12;
+		captionText.paddingLeftInPixels = 16;
+		captionText.paddingRightInPixels = 16;
+		captionContainer.addControl(captionText);
+		this.captionText = captionText;
+		
+		advancedTexture.addControl(captionContainer);
+		
+		// Inserted first so the tour lets go of the camera before any input handler (e.g. keyboard navigation) grabs it
+		this.pointerObserver = scene.onPointerObservable.add(() => this.onUserInput(), PointerEventTypes.POINTERDOWN | PointerEventTypes.POINTERWHEEL, true);
+		this.keyboardObserver = scene.onKeyboardObservable.add(() => this.onUserInput(), KeyboardEventTypes.KEYDOWN, true);
+	}
+	
+	get state() {
+		return this._state;
+	}
+	
+	/**
+	 * Starts the tour from its first waypoint, replacing any tour that is currently playing
+	 */
+	play(tour: TourDefinition) {
+		this.stop();
+		
+		this.tour = tour;
+		this.waypointIndex = 0;
+		this.setState('playing');
+		this.runFrom(0);
+	}
+	
+	/**
+	 * Halts the camera where it is. Unlike a pause caused by user input this does not resume by itself.
+	 */
+	pause() {
+		this.clearIdleTimeout();
+		
+		if (this._state === 'playing') {
+			this.interrupt();
+			this.pausedByUserInput = false;
+			this.setState('paused');
+		}
+	}
+	
+	/**
+	 * Continues a paused tour by flying to the waypoint it was heading to (or dwelling at) again
+	 */
+	resume() {
+		this.clearIdleTimeout();
+		
+		if (this._state === 'paused') {
+			this.setState('playing');
+			this.runFrom(this.waypointIndex);
+		}
+	}
+	
+	stop() {
+		this.clearIdleTimeout();
+		
+		if (this._state === 'playing') {
+			this.interrupt();
+		}
+		
+		this.runId++;
+		this.tour = null;
+		this.showCaption(undefined);
+		this.setState('stopped');
+	}
+	
+	dispose() {
+		this.stop();
+		this.pointerObserver && this.scene.onPointerObservable.remove(this.pointerObserver);
+		this.keyboardObserver && this.scene.onKeyboardObservable.remove(this.keyboardObserver);
+		this.captionAnimation?.stop();
+		this.captionContainer.dispose();
+		this.onStateChangedObservable.clear();
+		this.onWaypointObservable.clear();
+	}
+	
+	private async runFrom(index: number) {
+		
+		const runId = ++this.runId;
+		const tour = this.tour;
+		
+		if (!tour) {
+			return;
+		}
+		
+		let i = index;
+		
+		while (i < tour.waypoints.length) {
+			
+			const waypoint = tour.waypoints[i];
+			this.waypointIndex = i;
+			this.showCaption(waypoint.caption);
+			this.onWaypointObservable.notifyObservers({ index: i, waypoint });
+			
+			const arrived = await this.travelTo(waypoint);
+			
+			if (runId !== this.runId) {
+				return;
+			}
+			
+			// Something outside the tour (e.g. the embedding app) took the camera elsewhere, leave it there and treat it
+			// like user input
+			if (!arrived) {
+				this.runId++;
+				this.pausedByUserInput = true;
+				this.setState('paused');
+				this.scheduleResume();
+				return;
+			}
+			
+			if (!await this.dwell(waypoint.dwellSeconds) || runId !== this.runId) {
+				return;
+			}
+			
+			i++;
+			
+			if (i === tour.waypoints.length && tour.loop) {
+				i = 0;
+			}
+		}
+		
+		this.stop();
+	}
+	
+	private async travelTo(waypoint: TourWaypoint) {
+		
+		const { controller } = this;
+		const { alpha, beta, radius } = waypoint;
+		const durationSeconds = waypoint.transitionSeconds ?? defaultTransitionSeconds;
+		
+		const arrived = waypoint.body !== undefined
+			? await controller.focusBody(waypoint.body, { durationSeconds, alpha, beta, radius })
+			: await controller.animateCameraOrbit({ alpha, beta, radius }, durationSeconds);
+			
+		if (!arrived || waypoint.galaxyZoom === undefined) {
+			return arrived;
+		}
+		
+		return controller.animateCameraOrbit({ radius: controller.getGalaxyZoomRadius(waypoint.galaxyZoom) }, durationSeconds);
+	}
+	
+	/**
+	 * Waits for the given number of seconds of rendered time. Resolves with false if the tour was interrupted meanwhile.
+	 */
+	private dwell(seconds: number) {
+		return new Promise<boolean>(resolve => {
+			
+			let elapsedMs = 0;
+			
+			const observer = this.scene.onBeforeRenderObservable.add(() => {
+				elapsedMs += this.scene.getEngine().getDeltaTime();
+				
+				if (elapsedMs >= seconds * 1000) {
+					finish(true);
+				}
+			});
+			
+			const finish = (completed: boolean) => {
+				this.scene.onBeforeRenderObservable.remove(observer);
+				this.cancelDwell = null;
+				resolve(completed);
+			};
+			
+			this.cancelDwell = () => finish(false);
+			
+		});
+	}
+	
+	private interrupt() {
+		this.runId++;
+		this.cancelDwell && this.cancelDwell();
+		this.controller.cancelFocus();
+	}
+	
+	private onUserInput() {
+		
+		if (this._state === 'stopped' || (this._state === 'paused' && !this.pausedByUserInput)) {
+			return;
+		}
+		
+		if (this._state === 'playing') {
+			this.interrupt();
+			this.pausedByUserInput = true;
+			this.setState('paused');
+		}
+		
+		// Every further input pushes the auto resume back
+		this.scheduleResume();
+	}
+	
+	private scheduleResume() {
+		this.clearIdleTimeout();
+		
+		const idleResumeSeconds = this.tour?.idleResumeSeconds ?? defaultIdleResumeSeconds;
+		
+		if (idleResumeSeconds > 0) {
+			this.idleTimeout = window.setTimeout(() => this.resume(), idleResumeSeconds * 1000);
+		}
+	}
+	
+	private clearIdleTimeout() {
+		if (this.idleTimeout !== null) {
+			window.clearTimeout(this.idleTimeout);
+			this.idleTimeout = null;
+		}
+	}
+	
+	private setState(state: TourState) {
+		if (state !== this._state) {
+			this._state = state;
+			this.onStateChangedObservable.notifyObservers(state);
+		}
+	}
+	
+	/**
+	 * Fades the caption to the given text, or out when there is none
+	 */
+	private showCaption(caption: undefined | string) {
+		
+		const { captionContainer, captionText } = this;
+		const visibleTarget = caption !== undefined;
+		
+		// Detach the end callback first, stopping raises it and would apply the interrupted fade's visibility
+		if (this.captionAnimation) {
+			this.captionAnimation.onAnimationEnd = null;
+			this.captionAnimation.stop();
+		}
+		
+		if (visibleTarget) {
+			captionText.text = caption ?? '';
+			captionContainer.isVisible = true;
+		}
+		
+		const easingFunction = new QuinticEase();
+		easingFunction.setEasingMode(EasingFunction.EASINGMODE_EASEOUT);
+		
+		this.captionAnimation = Animation.CreateAndStartAnimation('tourCaptionFade', captionContainer, 'alpha', animationFps, captionFadeSeconds * animationFps, captionContainer.alpha, visibleTarget ? 1 : 0, Animation.ANIMATIONLOOPMODE_CONSTANT, easingFunction, () => {
+			captionContainer.isVisible = visibleTarget;
+		}, this.scene);
+	}
+	
+}
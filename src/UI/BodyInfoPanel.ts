@@ -0,0 +1,269 @@
+import {
+	Animatable,
+	Animation,
+	EasingFunction,
+	Engine,
+	Observer,
+	QuinticEase,
+	Scene,
+} from "@babylonjs/core";
+
+import {
+	AdvancedDynamicTexture,
+	Control,
+	Rectangle,
+	StackPanel,
+	TextBlock,
+} from "@babylonjs/gui";
+
+export interface BodyInfo {
+	name: string;
+	type: string;
+	diameter: number;
+	/** Seconds of simulation time, null for bodies that do not orbit anything */
+	orbitalPeriod: null | number;
+	description?: string;
+}
+
+interface BodyInfoPanelLayout {
+	/** Width of the fullscreen GUI, which is sized in render pixels rather than CSS pixels */
+	width: number;
+	portrait: boolean;
+}
+
+/** Screens narrower than this (in CSS pixels) or taller than wide get the collapsed bottom sheet layout */
+const narrowScreenWidth = 700;
+const landscapePanelWidth = 320;
+const portraitPanelHeight = 150;
+const animationFps = 60;
+const animationDurationSeconds = 0.4;
+
+/**
+ * Side panel describing the focused body. Slides in from the right on wide screens and up from the bottom, with the
+ * description collapsed, on narrow portrait screens.
+ */
+export class BodyInfoPanel {
+	
+	container: Rectangle;
+	
+	private nameText: TextBlock;
+	private typeText: TextBlock;
+	private diameterText: TextBlock;
+	private periodText: TextBlock;
+	private distanceText: TextBlock;
+	private descriptionText: TextBlock;
+	
+	private layout: BodyInfoPanelLayout;
+	private visible: boolean = false;
+	private animations: Animatable[] = [];
+	private resizeObserver: null | Observer<Engine> = null;
+	
+	constructor(public advancedTexture: AdvancedDynamicTexture, public scene: Scene) {
+		
+		const container = new Rectangle('bodyInfoPanel');
+		container.background = 'rgba(5, 10, 30, 0.65)';
+		container.color = 'rgba(255, 255, 255, 0.3)';
+		container.thickness = 1;
+		container.cornerRadius = 8;
+		container.isPointerBlocker = true;
+		container.alpha = 0;
+		container.isVisible = false;
+		this.container = container;
+		
+		const stack = new StackPanel('bodyInfoPanelStack');
+		stack.paddingTopInPixels = 12;
+		stack.paddingBottomInPixels = 12;
+		stack.paddingLeftInPixels = 16;
+		stack.paddingRightInPixels = 16;
+		stack.verticalAlignment = Control.VERTICAL_ALIGNMENT_TOP;
+		container.addControl(stack);
+		
+		const createText = (name: string, fontSize: number, color: string = 'white') => {
+			const text = new TextBlock(name);
+			text.color = color;
+			text.fontSize = fontSize;
+			text.fontFamily = 'Open Sans';
+			text.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+			text.resizeToFit = true;
+			text.textWrapping = true;
+			stack.addControl(text);
+			return text;
+		};
+		
+		this.nameText = createText('bodyInfoName', 26);
+		this.nameText.fontWeight = '600';
+		this.typeText = createText('bodyInfoType', 14, 'rgba(255, 255, 255, 0.6)');
+		this.diameterText = createText('bodyInfoDiameter', 16);
+		this.periodText = createText('bodyInfoPeriod', 16);
+		this.distanceText = createText('bodyInfoDistance', 16);
+		this.descriptionText = createText('bodyInfoDescription', 15, 'rgba(255, 255, 255, 0.85)');
+		this.descriptionText.paddingTopInPixels = 8;
+		
+		advancedTexture.addControl(container);
+		
+		this.layout = this.getLayout();
+		this.applyLayout();
+		
+		this.resizeObserver = scene.getEngine().onResizeObservable.add(() => {
+			this.layout = this.getLayout();
+			this.applyLayout();
+		});
+	}
+	
+	/**
+	 * Fills the panel with the given body and animates it in (out and back in if it is already showing another body)
+	 */
+	show(info: BodyInfo) {
+		
+		const populate = () => {
+			this.nameText.text = info.name;
+			this.typeText.text = info.type.toUpperCase();
+			this.diameterText.text = `Diameter: ${BodyInfoPanel.formatNumber(info.diameter)} units`;
+			this.periodText.text = `Orbital period: ${info.orbitalPeriod === null ? 'n/a' : BodyInfoPanel.formatDuration(info.orbitalPeriod)}`;
+			this.distanceText.text = '';
+			this.descriptionText.text = info.description ?? '';
+			this.descriptionText.isVisible = !this.layout.portrait && this.descriptionText.text.length > 0;
+		};
+		
+		if (this.visible) {
+			this.animate(false, () => {
+				populate();
+				this.animate(true);
+			});
+		}
+		else {
+			populate();
+			this.animate(true);
+		}
+		
+		this.visible = true;
+	}
+	
+	hide() {
+		if (this.visible) {
+			this.visible = false;
+			this.animate(false);
+		}
+	}
+	
+	/**
+	 * Updates the live distance readout. Pass null to hide it (e.g. for the star itself).
+	 */
+	setDistanceToStar(distance: null | number) {
+		this.distanceText.isVisible = distance !== null;
+		if (distance !== null) {
+			this.distanceText.text = `Distance to star: ${BodyInfoPanel.formatNumber(distance)} units`;
+		}
+	}
+	
+	dispose() {
+		this.stopAnimations();
+		this.resizeObserver && this.scene.getEngine().onResizeObservable.remove(this.resizeObserver);
+		this.container.dispose();
+	}
+	
+	private getLayout(): BodyInfoPanelLayout {
+		const engine = this.scene.getEngine();
+		const renderWidth = engine.getRenderWidth();
+		const cssWidth = renderWidth * engine.getHardwareScalingLevel();
+		const cssHeight = engine.getRenderHeight() * engine.getHardwareScalingLevel();
+		
+		return {
+			width: renderWidth,
+			portrait: cssWidth < narrowScreenWidth || cssHeight > cssWidth,
+		};
+	}
+	
+	private applyLayout() {
+		const { container, descriptionText } = this;
+		
+		if (this.layout.portrait) {
+			container.widthInPixels = this.layout.width - 24;
+			container.heightInPixels = portraitPanelHeight;
+			container.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_CENTER;
+			container.verticalAlignment = Control.VERTICAL_ALIGNMENT_BOTTOM;
+			container.leftInPixels = 0;
+			container.topInPixels = this.visible ? -12 : portraitPanelHeight;
+			// No room for prose on small screens
+			descriptionText.isVisible = false;
+		}
+		else {
+			container.widthInPixels = landscapePanelWidth;
+			container.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_RIGHT;
+			container.verticalAlignment = Control.VERTICAL_ALIGNMENT_TOP;
+			container.topInPixels = 24;
+			container.leftInPixels = this.visible ? -24 : landscapePanelWidth;
+			descriptionText.isVisible = descriptionText.text.length > 0;
+		}
+		
+		container.adaptHeightToChildren = !this.layout.portrait;
+	}
+	
+	private animate(visibleTarget: boolean, onEnd?: () => void) {
+		
+		this.stopAnimations();
+		
+		const easingFunction = new QuinticEase();
+		easingFunction.setEasingMode(EasingFunction.EASINGMODE_EASEOUT);
+		
+		const { container } = this;
+		const totalFrames = animationDurationSeconds * animationFps;
+		
+		// Slide from off screen along whichever edge the panel is docked to
+		const property = this.layout.portrait ? 'topInPixels' : 'leftInPixels';
+		const shown = this.layout.portrait ? -12 : -24;
+		const hidden = this.layout.portrait ? portraitPanelHeight : landscapePanelWidth;
+		
+		const slide = new Animation('bodyInfoPanelSlide', property, animationFps, Animation.ANIMATIONTYPE_FLOAT);
+		slide.setKeys([
+			{ frame: 0, value: container[property] },
+			{ frame: totalFrames, value: visibleTarget ? shown : hidden },
+		]);
+		slide.setEasingFunction(easingFunction);
+		
+		const fade = new Animation('bodyInfoPanelFade', 'alpha', animationFps, Animation.ANIMATIONTYPE_FLOAT);
+		fade.setKeys([
+			{ frame: 0, value: container.alpha },
+			{ frame: totalFrames, value: visibleTarget ? 1 : 0 },
+		]);
+		
+		container.isVisible = true;
+		
+		this.animations.push(this.scene.beginDirectAnimation(container, [slide, fade], 0, totalFrames, false, 1, () => {
+			container.isVisible = visibleTarget;
+			onEnd && onEnd();
+		}));
+	}
+	
+	private stopAnimations() {
+		// Detach end callbacks first, stopping an animatable raises them and would chain the interrupted transition
+		this.animations.forEach(a => {
+			a.onAnimationEnd = null;
+			a.stop();
+		});
+		this.animations = [];
+	}
+	
+	static formatNumber(value: number) {
+		return value >= 100 ? Math.round(value).toLocaleString() : value.toFixed(1);
+	}
+	
+	/**
+	 * Formats seconds of simulation time as the two most significant units, e.g. `1d 4h` or `33m 7s`
+	 */
+	static formatDuration(seconds: number) {
+		const units: [string, number][] = [['d', 86400], ['h', 3600], ['m', 60], ['s', 1]];
+		const parts: string[] = [];
+		let remaining = Math.round(seconds);
+		
+		units.forEach(([label, size]) => {
+			if (parts.length < 2 && (remaining >= size || (size === 1 && parts.length === 0))) {
+				parts.push(`${Math.floor(remaining / size)}${label}`);
+				remaining %= size;
+			}
+		});
+		
+		return parts.join(' ');
+	}
+	
+}
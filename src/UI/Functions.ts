@@ -1,31 +1,150 @@
+import { AbstractMesh } from "@babylonjs/core";
+import {
+	AdvancedDynamicTexture,
+	Button,
+	Container,
+	Control,
+	Image,
+	MultiLine,
+	Rectangle,
+	TextBlock,
+} from "@babylonjs/gui";
 
 import * as Types from './Types';
 
-function CreateRef() {
-	
+/** Controls built from a declarative tree */
+export interface Canvas {
+	/** Top level controls in the order they were declared */
+	controls: Control[];
+	/** Reads all reactive props again and applies them */
+	update(): void;
+	/** Removes and disposes all controls and empties their refs */
+	dispose(): void;
 }
 
-function CreateCanvas<T extends (Types.WhichControl<T[number]>[])>(content: T): T {
-	return null as any;
+export function CreateRef<C extends Control = Control>(): Types.Ref<C> {
+	return { current: null };
 }
 
-/* function tester<T extends (Types.WhichControl<T[number]>[])>(value: T) {
+/**
+ * Builds `@babylonjs/gui` controls from a declarative tree and adds them to `host`. Line points referring to other
+ * controls are resolved once the whole tree is built, so a line may point at a control declared after it.
+ */
+export function CreateCanvas<T extends (Types.WhichControl<T[number]>[])>(host: AdvancedDynamicTexture | Container, content: T): Canvas {
 	
-} */
-
-// Test
+	const updaters: (() => void)[] = [];
+	const refs: Types.Ref[] = [];
+	const lines: { line: MultiLine, points: Types.LinePoint[] }[] = [];
+	
+	const build = (definition: Types.Control, parent: AdvancedDynamicTexture | Container): Control => {
+		const control = createControl(definition);
+		
+		// Linking to a mesh needs the control to be attached already
+		parent.addControl(control);
+		
+		const updater = applyProps(control, definition.props as undefined | Record<string, unknown>);
+		updater && updaters.push(updater);
+		
+		if (definition.children) {
+			definition.children.forEach(child => build(child, control as Container));
+		}
+		
+		if (definition.ref) {
+			(definition.ref as Types.Ref).current = control;
+			refs.push(definition.ref as Types.Ref);
+		}
+		
+		if (definition.link) {
+			control.linkWithMesh(definition.link);
+		}
+		
+		if (definition.type === Types.ControlType.Line) {
+			lines.push({ line: control as MultiLine, points: definition.points });
+		}
+		
+		return control;
+	};
+	
+	const controls = content.map(definition => build(definition, host));
+	
+	lines.forEach(({ line, points }) => points.forEach(point => line.add(resolveLinePoint(point))));
+	
+	const update = () => updaters.forEach(updater => updater());
+	update();
+	
+	return {
+		controls,
+		update,
+		dispose: () => {
+			updaters.length = 0;
+			controls.forEach(control => {
+				host.removeControl(control);
+				control.dispose();
+			});
+			refs.forEach(ref => ref.current = null);
+		},
+	};
+}
 
-// tester([{type: Types.ControlType.Container, }, {type: Types.ControlType.Line, points: []}]);
+function createControl(definition: Types.Control): Control {
+	switch (definition.type) {
+		case Types.ControlType.Container:
+			return new Container(definition.label);
+		case Types.ControlType.Rectangle:
+			return new Rectangle(definition.label);
+		case Types.ControlType.Text:
+			return new TextBlock(definition.label);
+		case Types.ControlType.Line:
+			return new MultiLine(definition.label);
+		case Types.ControlType.Button: {
+			const { onClick } = definition;
+			const button = definition.text === undefined ? new Button(definition.label) : Button.CreateSimpleButton(definition.label ?? '', definition.text);
+			onClick && button.onPointerClickObservable.add(() => onClick());
+			return button;
+		}
+		case Types.ControlType.Image:
+			return new Image(definition.label, definition.url);
+	}
+}
 
-const t = CreateCanvas([
-	{
-		type: Types.ControlType.Container,
-		
-	},
-	{
-		type: Types.ControlType.Line,
-		points: [],
-	},
-]);
+/**
+ * Sets fixed props once and returns a function applying the reactive ones, if there are any
+ */
+function applyProps(control: Control, props: undefined | Record<string, unknown>): null | (() => void) {
+	
+	if (!props) {
+		return null;
+	}
+	
+	const target = control as unknown as Record<string, unknown>;
+	const reactiveKeys: string[] = [];
+	
+	Object.keys(props).forEach(key => {
+		const value = props[key];
+		
+		if (typeof value === 'function') {
+			reactiveKeys.push(key);
+		}
+		else {
+			target[key] = value;
+		}
+	});
+	
+	if (!reactiveKeys.length) {
+		return null;
+	}
+	
+	return () => reactiveKeys.forEach(key => target[key] = (props[key] as () => unknown)());
+}
 
-const first = t[0].type;
+function resolveLinePoint(point: Types.LinePoint) {
+	if (point instanceof AbstractMesh || !('current' in point)) {
+		return point;
+	}
+	
+	if (!point.current) {
+		throw new Error('Line points at a ref that is not part of the canvas');
+	}
+	
+	return point.current;
+}
@@ -0,0 +1,233 @@
+import {
+	AbstractMesh,
+	Camera,
+	Matrix,
+	Vector3,
+} from "@babylonjs/core";
+
+import { clamp } from '../Utils/Math';
+
+/**
+ * A label taking part in the layout. The owner keeps the inputs up to date every frame and reads the outputs back in
+ * `onLayout`.
+ */
+export interface LayoutLabel {
+	/** The label points at this mesh */
+	mesh: AbstractMesh;
+	/** Size of the label box in GUI pixels */
+	width: number;
+	height: number;
+	/** Preferred distance of the label centre below the mesh in GUI pixels */
+	offsetY: number;
+	/** Labels with a higher priority are placed first and never moved out of the way */
+	priority: number;
+	/** Opacity before layout, e.g. from distance fades. Labels at 0 take up no space. */
+	opacity: number;
+	
+	/** Offset the label should use, nudged so it does not overlap labels of higher priority */
+	layoutOffsetY: number;
+	/** 0 while the mesh is occluded, off-screen or there is no room for the label, fades to 1 otherwise */
+	visibility: number;
+	
+	/** Called after every layout pass */
+	onLayout?: () => void;
+}
+
+export interface LabelLayoutOptions {
+	/** Space kept between labels in GUI pixels, defaults to 8 */
+	margin?: number;
+	/** How often a label may be moved by its own height to make room, defaults to 3 */
+	maxNudges?: number;
+	/** Time for labels to fade and slide to their new place, defaults to 150 */
+	transitionMs?: number;
+}
+
+interface ScreenRect {
+	left: number;
+	top: number;
+	right: number;
+	bottom: number;
+}
+
+interface Candidate {
+	label: LayoutLabel;
+	screenX: number;
+	screenY: number;
+	cameraDistance: number;
+}
+
+/**
+ * Screen-space layout pass for labels linked to meshes. Hides labels whose mesh is occluded by one of the occluders or
+ * off-screen, then places the rest greedily by priority and closeness to the camera, nudging them further away from
+ * their mesh (the leader line stretches along) when they would overlap a label placed before.
+ */
+export class LabelLayout {
+	
+	labels: LayoutLabel[] = [];
+	
+	private margin: number;
+	private maxNudges: number;
+	private transitionMs: number;
+	
+	private transformMatrix = new Matrix();
+	private projected = new Vector3();
+	
+	constructor(public camera: Camera, public occluders: AbstractMesh[], options: LabelLayoutOptions = {}) {
+		this.margin = options.margin ?? 8;
+		this.maxNudges = options.maxNudges ?? 3;
+		this.transitionMs = options.transitionMs ?? 150;
+	}
+	
+	add(label: LayoutLabel) {
+		this.labels.push(label);
+		return label;
+	}
+	
+	remove(label: LayoutLabel) {
+		this.labels = this.labels.filter(existing => existing !== label);
+	}
+	
+	/**
+	 * Lays out all labels and calls their `onLayout`. `delta` in milliseconds drives the transitions, 0 jumps straight
+	 * to the final layout.
+	 */
+	update(delta: number) {
+		
+		const candidates: Candidate[] = [];
+		const hidden: LayoutLabel[] = [];
+		
+		this.labels.forEach(label => {
+			const candidate = label.opacity > 0 ? this.project(label) : null;
+			
+			if (candidate && !this.isOccluded(label.mesh)) {
+				candidates.push(candidate);
+			}
+			else {
+				hidden.push(label);
+			}
+		});
+		
+		candidates.sort((a, b) => (b.label.priority - a.label.priority) || (a.cameraDistance - b.cameraDistance));
+		
+		const placed: ScreenRect[] = [];
+		const step = delta > 0 ? clamp(delta / this.transitionMs, 0, 1) : 1;
+		
+		candidates.forEach(({ label, screenX, screenY }) => {
+			const offsetY = this.findFreeOffset(label, screenX, screenY, placed);
+			
+			if (offsetY === null) {
+				hidden.push(label);
+				return;
+			}
+			
+			placed.push(LabelLayout.getRect(label, screenX, screenY, offsetY));
+			
+			// Labels that just appeared start at their place rather than sliding in from the last one they had
+			label.layoutOffsetY = label.visibility > 0 ? label.layoutOffsetY + ((offsetY - label.layoutOffsetY) * step) : offsetY;
+			label.visibility = Math.min(1, label.visibility + step);
+		});
+		
+		hidden.forEach(label => label.visibility = Math.max(0, label.visibility - step));
+		
+		this.labels.forEach(label => label.onLayout?.());
+		
+	}
+	
+	/**
+	 * Screen position of the label's mesh in GUI pixels, null when it is behind the camera or the label would end up
+	 * off-screen
+	 */
+	private project(label: LayoutLabel): null | Candidate {
+		
+		const engine = this.camera.getEngine();
+		const viewport = this.camera.viewport.toGlobal(engine.getRenderWidth(), engine.getRenderHeight());
+		const position = label.mesh.getBoundingInfo().boundingSphere.centerWorld;
+		
+		this.camera.getViewMatrix().multiplyToRef(this.camera.getProjectionMatrix(), this.transformMatrix);
+		Vector3.ProjectToRef(position, Matrix.IdentityReadOnly, this.transformMatrix, viewport, this.projected);
+		
+		const { x, y, z } = this.projected;
+		const halfWidth = label.width / 2;
+		
+		if (z < 0 || z > 1
+			|| x + halfWidth < viewport.x || x - halfWidth > viewport.x + viewport.width
+			|| y < viewport.y || y + label.offsetY - (label.height / 2) > viewport.y + viewport.height) {
+			return null;
+		}
+		
+		return { label, screenX: x, screenY: y, cameraDistance: Vector3.Distance(this.camera.globalPosition, position) };
+	}
+	
+	/**
+	 * Whether another occluder's bounding sphere lies between the camera and the mesh's centre
+	 */
+	private isOccluded(mesh: AbstractMesh) {
+		
+		const origin = this.camera.globalPosition;
+		const target = mesh.getBoundingInfo().boundingSphere.centerWorld;
+		const direction = target.subtract(origin);
+		const targetDistance = direction.length();
+		direction.scaleInPlace(1 / targetDistance);
+		
+		return this.occluders.some(occluder => {
+			if (occluder === mesh || !occluder.isEnabled() || !occluder.isVisible) {
+				return false;
+			}
+			
+			const { centerWorld, radiusWorld } = occluder.getBoundingInfo().boundingSphere;
+			const toCenter = centerWorld.subtract(origin);
+			const along = Vector3.Dot(toCenter, direction);
+			
+			// Only bodies centred in front of the target count, so a planet does not hide the label of a moon passing in front
+			if (along < 0 || along > targetDistance) {
+				return false;
+			}
+			
+			return toCenter.lengthSquared() - (along * along) < radiusWorld * radiusWorld;
+		});
+	}
+	
+	/**
+	 * Tries the preferred offset first, then moves the label by its own height further down and back up (never above its
+	 * mesh) until it does not overlap any placed label
+	 */
+	private findFreeOffset(label: LayoutLabel, screenX: number, screenY: number, placed: ScreenRect[]): null | number {
+		
+		const nudge = label.height + this.margin;
+		const minOffsetY = (label.height / 2) + this.margin;
+		
+		for (let i = 0; i <= this.maxNudges * 2; i++) {
+			// 0, +1, -1, +2, -2, ...
+			const direction = i % 2 === 1 ? 1 : -1;
+			const offsetY = label.offsetY + (Math.ceil(i / 2) * nudge * direction);
+			
+			if (offsetY < minOffsetY) {
+				continue;
+			}
+			
+			const rect = LabelLayout.getRect(label, screenX, screenY, offsetY);
+			
+			if (!placed.some(other => LabelLayout.overlaps(rect, other, this.margin))) {
+				return offsetY;
+			}
+		}
+		
+		return null;
+	}
+	
+	private static getRect(label: LayoutLabel, screenX: number, screenY: number, offsetY: number): ScreenRect {
+		const centerY = screenY + offsetY;
+		
+		return {
+			left: screenX - (label.width / 2),
+			top: centerY - (label.height / 2),
+			right: screenX + (label.width / 2),
+			bottom: centerY + (label.height / 2),
+		};
+	}
+	
+	private static overlaps(a: ScreenRect, b: ScreenRect, margin: number) {
+		return a.left < b.right + margin && b.left < a.right + margin && a.top < b.bottom + margin && b.top < a.bottom + margin;
+	}
+	
+}
@@ -0,0 +1,243 @@
+import { ILoadingScreen } from "@babylonjs/core";
+
+export type LoadingTaskStatus = 'pending' | 'done' | 'failed';
+
+/** What the user chose after some assets failed to load */
+export type LoadingFailureChoice = 'retry' | 'continue';
+
+/** Seconds before an unanswered failure prompt continues by itself, so unattended screens still start */
+const autoContinueSeconds = 20;
+
+const statusSymbols: Record<LoadingTaskStatus, string> = {
+	pending: '•',
+	done: '✓',
+	failed: '✗',
+};
+
+const statusColors: Record<LoadingTaskStatus, string> = {
+	pending: 'rgba(255, 255, 255, 0.5)',
+	done: '#7CD992',
+	failed: '#FF7A7A',
+};
+
+/**
+ * DOM overlay shown over the canvas while the solar system definition and its assets load. Shows overall and per-task
+ * progress and, if anything failed, lets the user retry or continue with fallbacks.
+ *
+ * Plain DOM rather than Babylon GUI as it has to be visible before the scene can render anything.
+ */
+export class LoadingScreen implements ILoadingScreen {
+	
+	root: HTMLDivElement;
+	
+	private titleEl: HTMLDivElement;
+	private progressBarEl: HTMLDivElement;
+	private progressTextEl: HTMLDivElement;
+	private taskListEl: HTMLUListElement;
+	private failureEl: HTMLDivElement;
+	private taskEls = new Map<string, HTMLLIElement>();
+	private _loadingUIText: string = 'Loading';
+	private _loadingUIBackgroundColor: string = '#05060F';
+	private resizeListener = () => this.fitToCanvas();
+	/** Counts down the failure prompt while it is open */
+	private promptInterval: null | number = null;
+	
+	constructor(public canvasEl: HTMLCanvasElement) {
+		
+		this.root = createElement('div', {
+			position: 'absolute',
+			display: 'none',
+			flexDirection: 'column',
+			alignItems: 'center',
+			justifyContent: 'center',
+			boxSizing: 'border-box',
+			padding: '24px',
+			color: 'white',
+			fontFamily: '"Open Sans", sans-serif',
+			background: this._loadingUIBackgroundColor,
+			zIndex: '10',
+			transition: 'opacity 0.4s',
+		});
+		
+		const panel = createElement('div', { width: '100%', maxWidth: '420px' });
+		this.root.append(panel);
+		
+		this.titleEl = createElement('div', { fontSize: '22px', fontWeight: '600', marginBottom: '16px' });
+		this.titleEl.textContent = this._loadingUIText;
+		
+		const progressTrack = createElement('div', { height: '4px', borderRadius: '2px', background: 'rgba(255, 255, 255, 0.15)', overflow: 'hidden' });
+		this.progressBarEl = createElement('div', { height: '100%', width: '0%', background: '#6FA8FF', transition: 'width 0.2s' });
+		progressTrack.append(this.progressBarEl);
+		
+		this.progressTextEl = createElement('div', { fontSize: '13px', opacity: '0.7', margin: '8px 0 12px' });
+		
+		this.taskListEl = createElement('ul', { listStyle: 'none', margin: '0', padding: '0', fontSize: '13px', maxHeight: '40vh', overflowY: 'auto' });
+		
+		this.failureEl = createElement('div', { display: 'none', marginTop: '16px' });
+		
+		panel.append(this.titleEl, progressTrack, this.progressTextEl, this.taskListEl, this.failureEl);
+	}
+	
+	get loadingUIText() {
+		return this._loadingUIText;
+	}
+	
+	set loadingUIText(text: string) {
+		this._loadingUIText = text;
+		this.titleEl.textContent = text;
+	}
+	
+	get loadingUIBackgroundColor() {
+		return this._loadingUIBackgroundColor;
+	}
+	
+	set loadingUIBackgroundColor(color: string) {
+		this._loadingUIBackgroundColor = color;
+		this.root.style.background = color;
+	}
+	
+	displayLoadingUI() {
+		if (!this.root.parentElement) {
+			document.body.append(this.root);
+			window.addEventListener('resize', this.resizeListener);
+		}
+		
+		this.fitToCanvas();
+		this.root.style.display = 'flex';
+		this.root.style.opacity = '1';
+	}
+	
+	hideLoadingUI() {
+		this.root.style.opacity = '0';
+		
+		// Wait for the fade out, unless the screen was shown again in the meantime
+		window.setTimeout(() => {
+			if (this.root.style.opacity === '0') {
+				this.root.style.display = 'none';
+			}
+		}, 400);
+	}
+	
+	/**
+	 * Replaces the task list, marking every task as pending
+	 */
+	setTasks(names: string[]) {
+		this.taskListEl.textContent = '';
+		this.taskEls.clear();
+		
+		names.forEach(name => {
+			const taskEl = createElement('li', { padding: '2px 0' });
+			this.taskListEl.append(taskEl);
+			this.taskEls.set(name, taskEl);
+			this.setTaskStatus(name, 'pending');
+		});
+		
+		this.setProgress(names.length, names.length);
+	}
+	
+	setTaskStatus(name: string, status: LoadingTaskStatus, message?: string) {
+		const taskEl = this.taskEls.get(name);
+		
+		if (!taskEl) {
+			return;
+		}
+		
+		taskEl.textContent = `${statusSymbols[status]} ${name}${message ? ` - ${message}` : ''}`;
+		taskEl.style.color = statusColors[status];
+	}
+	
+	setProgress(remainingCount: number, totalCount: number) {
+		const doneCount = totalCount - remainingCount;
+		this.progressBarEl.style.width = `${totalCount > 0 ? (doneCount / totalCount) * 100 : 100}%`;
+		this.progressTextEl.textContent = `${doneCount} of ${totalCount} assets loaded`;
+	}
+	
+	/**
+	 * Lists the failed tasks and waits for the user to retry them or continue without them. Continues automatically if
+	 * nobody answers.
+	 */
+	promptFailures(failedNames: string[]): Promise<LoadingFailureChoice> {
+		return new Promise(resolve => {
+			
+			const { failureEl } = this;
+			failureEl.textContent = '';
+			failureEl.style.display = 'block';
+			
+			const messageEl = createElement('div', { fontSize: '14px', marginBottom: '12px' });
+			failureEl.append(messageEl);
+			
+			let secondsLeft = autoContinueSeconds;
+			const updateMessage = () => messageEl.textContent = `${failedNames.length} asset${failedNames.length === 1 ? '' : 's'} failed to load. Continuing with placeholders in ${secondsLeft}s.`;
+			updateMessage();
+			
+			const interval = window.setInterval(() => {
+				secondsLeft--;
+				secondsLeft <= 0 ? choose('continue') : updateMessage();
+			}, 1000);
+			this.promptInterval = interval;
+			
+			const choose = (choice: LoadingFailureChoice) => {
+				window.clearInterval(interval);
+				this.promptInterval = null;
+				failureEl.style.display = 'none';
+				resolve(choice);
+			};
+			
+			const createButton = (label: string, primary: boolean, choice: LoadingFailureChoice) => {
+				const button = createElement('button', {
+					marginRight: '8px',
+					padding: '6px 14px',
+					border: '1px solid rgba(255, 255, 255, 0.4)',
+					borderRadius: '4px',
+					background: primary ? '#6FA8FF' : 'transparent',
+					color: primary ? '#05060F' : 'white',
+					fontFamily: 'inherit',
+					cursor: 'pointer',
+				});
+				button.textContent = label;
+				button.addEventListener('click', () => choose(choice), { once: true });
+				failureEl.append(button);
+				return button;
+			};
+			
+			createButton('Retry', true, 'retry').focus();
+			createButton('Continue anyway', false, 'continue');
+			
+		});
+	}
+	
+	/**
+	 * Shows a fatal error in place of the progress, e.g. when the solar system definition itself cannot be loaded
+	 */
+	showError(message: string) {
+		this.displayLoadingUI();
+		this.loadingUIText = 'Unable to load the solar system';
+		this.progressTextEl.textContent = message;
+		this.progressTextEl.style.color = statusColors.failed;
+	}
+	
+	dispose() {
+		// An open prompt is abandoned along with the renderer waiting for it
+		this.promptInterval !== null && window.clearInterval(this.promptInterval);
+		this.promptInterval = null;
+		window.removeEventListener('resize', this.resizeListener);
+		this.root.remove();
+	}
+	
+	private fitToCanvas() {
+		const rect = this.canvasEl.getBoundingClientRect();
+		const { style } = this.root;
+		
+		style.left = `${rect.left + window.scrollX}px`;
+		style.top = `${rect.top + window.scrollY}px`;
+		style.width = `${rect.width}px`;
+		style.height = `${rect.height}px`;
+	}
+	
+}
+
+function createElement<K extends keyof HTMLElementTagNameMap>(tagName: K, style: Partial<CSSStyleDeclaration>): HTMLElementTagNameMap[K] {
+	const element = document.createElement(tagName);
+	Object.assign(element.style, style);
+	return element;
+}
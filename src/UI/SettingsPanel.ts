@@ -0,0 +1,216 @@
+import {
+	AdvancedDynamicTexture,
+	Button,
+	Checkbox,
+	Control,
+	Rectangle,
+	StackPanel,
+	TextBlock,
+} from "@babylonjs/gui";
+
+import { getGraphicsPreset, GraphicsPreset, graphicsPresetNames, GraphicsSettings } from '../GraphicsSettings';
+
+type GraphicsToggle = 'godRays' | 'bloom' | 'chromaticAberration' | 'fxaa' | 'glow';
+
+const toggleLabels: [GraphicsToggle, string][] = [
+	['godRays', 'God rays'],
+	['bloom', 'Bloom'],
+	['chromaticAberration', 'Chromatic aberration'],
+	['fxaa', 'Anti aliasing'],
+	['glow', 'Glow'],
+];
+
+const resolutionScaleLabels: [number, string][] = [
+	[1, '100%'],
+	[1.5, '67%'],
+	[2, '50%'],
+];
+
+const godRaySampleSizes = [20, 50, 100, 200];
+
+const panelWidth = 280;
+const rowHeight = 32;
+const panelBackground = 'rgba(5, 10, 30, 0.65)';
+const activeBackground = 'rgba(255, 255, 255, 0.3)';
+
+/**
+ * Graphics quality panel opened from a button in the bottom left corner. It does not apply anything itself: changes are
+ * reported through `onChange` and the owner of the settings calls `setSettings` to reflect the outcome.
+ */
+export class SettingsPanel {
+	
+	toggleButton: Button;
+	container: Rectangle;
+	
+	private presetButtons: [GraphicsPreset, Button][] = [];
+	private resolutionButtons: [number, Button][] = [];
+	private sampleSizeButtons: [number, Button][] = [];
+	private checkboxes: [GraphicsToggle, Checkbox][] = [];
+	private customText: TextBlock;
+	private open: boolean = false;
+	/** Set while controls are updated from code, so their change observers do not report back */
+	private updating: boolean = false;
+	
+	constructor(public advancedTexture: AdvancedDynamicTexture, settings: GraphicsSettings, private onChange: (settings: GraphicsPreset | Partial<GraphicsSettings>) => void) {
+		
+		const toggleButton = SettingsPanel.createButton('settingsToggle', 'Graphics', 110);
+		toggleButton.background = panelBackground;
+		toggleButton.color = 'rgba(255, 255, 255, 0.3)';
+		toggleButton.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+		toggleButton.verticalAlignment = Control.VERTICAL_ALIGNMENT_BOTTOM;
+		toggleButton.leftInPixels = 24;
+		toggleButton.topInPixels = -24;
+		toggleButton.onPointerClickObservable.add(() => this.setOpen(!this.open));
+		this.toggleButton = toggleButton;
+		
+		const container = new Rectangle('settingsPanel');
+		container.background = panelBackground;
+		container.color = 'rgba(255, 255, 255, 0.3)';
+		container.thickness = 1;
+		container.cornerRadius = 8;
+		container.isPointerBlocker = true;
+		container.widthInPixels = panelWidth;
+		container.adaptHeightToChildren = true;
+		container.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+		container.verticalAlignment = Control.VERTICAL_ALIGNMENT_BOTTOM;
+		container.leftInPixels = 24;
+		container.topInPixels = -72;
+		container.isVisible = false;
+		this.container = container;
+		
+		const stack = new StackPanel('settingsPanelStack');
+		stack.paddingTopInPixels = 12;
+		stack.paddingBottomInPixels = 12;
+		stack.paddingLeftInPixels = 16;
+		stack.paddingRightInPixels = 16;
+		container.addControl(stack);
+		
+		stack.addControl(SettingsPanel.createHeading('settingsPresetHeading', 'Quality'));
+		
+		const presetRow = SettingsPanel.createRow('settingsPresets');
+		graphicsPresetNames.forEach(preset => {
+			const button = SettingsPanel.createButton(`settingsPreset_${preset}`, preset.charAt(0).toUpperCase() + preset.slice(1), 60);
+			button.onPointerClickObservable.add(() => this.onChange(preset));
+			presetRow.addControl(button);
+			this.presetButtons.push([preset, button]);
+		});
+		stack.addControl(presetRow);
+		
+		this.customText = SettingsPanel.createHeading('settingsCustom', 'Custom settings');
+		this.customText.fontSize = 13;
+		this.customText.color = 'rgba(255, 255, 255, 0.6)';
+		stack.addControl(this.customText);
+		
+		toggleLabels.forEach(([key, label]) => {
+			const row = SettingsPanel.createRow(`settingsToggle_${key}`);
+			
+			const checkbox = new Checkbox(`settingsCheckbox_${key}`);
+			checkbox.widthInPixels = 20;
+			checkbox.heightInPixels = 20;
+			checkbox.color = 'white';
+			checkbox.onIsCheckedChangedObservable.add(checked => !this.updating && this.onChange({ [key]: checked }));
+			row.addControl(checkbox);
+			
+			const text = new TextBlock(`settingsLabel_${key}`, label);
+			text.widthInPixels = panelWidth - 60;
+			text.paddingLeftInPixels = 10;
+			text.color = 'white';
+			text.fontSize = 15;
+			text.fontFamily = 'Open Sans';
+			text.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+			row.addControl(text);
+			
+			stack.addControl(row);
+			this.checkboxes.push([key, checkbox]);
+		});
+		
+		stack.addControl(SettingsPanel.createHeading('settingsSampleSizeHeading', 'God ray samples'));
+		
+		const sampleSizeRow = SettingsPanel.createRow('settingsSampleSize');
+		godRaySampleSizes.forEach(godRaySampleSize => {
+			const button = SettingsPanel.createButton(`settingsSampleSize_${godRaySampleSize}`, String(godRaySampleSize), 60);
+			button.onPointerClickObservable.add(() => this.onChange({ godRaySampleSize }));
+			sampleSizeRow.addControl(button);
+			this.sampleSizeButtons.push([godRaySampleSize, button]);
+		});
+		stack.addControl(sampleSizeRow);
+		
+		stack.addControl(SettingsPanel.createHeading('settingsResolutionHeading', 'Resolution'));
+		
+		const resolutionRow = SettingsPanel.createRow('settingsResolution');
+		resolutionScaleLabels.forEach(([resolutionScale, label]) => {
+			const button = SettingsPanel.createButton(`settingsResolution_${resolutionScale}`, label, 60);
+			button.onPointerClickObservable.add(() => this.onChange({ resolutionScale }));
+			resolutionRow.addControl(button);
+			this.resolutionButtons.push([resolutionScale, button]);
+		});
+		stack.addControl(resolutionRow);
+		
+		advancedTexture.addControl(container);
+		advancedTexture.addControl(toggleButton);
+		
+		this.setSettings(settings);
+	}
+	
+	/**
+	 * Reflects the given settings in the controls without reporting them back through `onChange`
+	 */
+	setSettings(settings: GraphicsSettings) {
+		
+		this.updating = true;
+		
+		const preset = getGraphicsPreset(settings);
+		this.presetButtons.forEach(([buttonPreset, button]) => button.background = buttonPreset === preset ? activeBackground : 'transparent');
+		this.customText.isVisible = preset === null;
+		this.resolutionButtons.forEach(([resolutionScale, button]) => button.background = resolutionScale === settings.resolutionScale ? activeBackground : 'transparent');
+		this.sampleSizeButtons.forEach(([sampleSize, button]) => button.background = sampleSize === settings.godRaySampleSize ? activeBackground : 'transparent');
+		this.checkboxes.forEach(([key, checkbox]) => checkbox.isChecked = settings[key]);
+		
+		this.updating = false;
+	}
+	
+	setOpen(open: boolean) {
+		this.open = open;
+		this.container.isVisible = open;
+	}
+	
+	dispose() {
+		this.container.dispose();
+		this.toggleButton.dispose();
+	}
+	
+	private static createHeading(name: string, text: string) {
+		const heading = new TextBlock(name, text);
+		heading.color = 'white';
+		heading.fontSize = 16;
+		heading.fontWeight = '600';
+		heading.fontFamily = 'Open Sans';
+		heading.textHorizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+		heading.resizeToFit = true;
+		heading.paddingTopInPixels = 6;
+		heading.paddingBottomInPixels = 6;
+		return heading;
+	}
+	
+	private static createRow(name: string) {
+		const row = new StackPanel(name);
+		row.isVertical = false;
+		row.heightInPixels = rowHeight;
+		row.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
+		return row;
+	}
+	
+	private static createButton(name: string, text: string, width: number) {
+		const button = Button.CreateSimpleButton(name, text);
+		button.widthInPixels = width;
+		button.heightInPixels = rowHeight - 4;
+		button.paddingRightInPixels = 4;
+		button.color = 'white';
+		button.cornerRadius = 6;
+		button.fontSize = 14;
+		button.fontFamily = 'Open Sans';
+		button.hoverCursor = 'pointer';
+		return button;
+	}
+	
+}
@@ -1,46 +1,108 @@
+import type { AbstractMesh } from "@babylonjs/core";
+import type {
+	Button as GuiButton,
+	Container as GuiContainer,
+	Control as GuiControl,
+	Image as GuiImage,
+	MultiLine as GuiMultiLine,
+	Rectangle as GuiRectangle,
+	TextBlock as GuiTextBlock,
+} from "@babylonjs/gui";
 
 export enum ControlType {
 	Container,
 	Rectangle,
 	Text,
 	Line,
+	Button,
+	Image,
 }
 
+/** The `@babylonjs/gui` class each control type builds */
+export interface ControlClassMap {
+	[ControlType.Container]: GuiContainer;
+	[ControlType.Rectangle]: GuiRectangle;
+	[ControlType.Text]: GuiTextBlock;
+	[ControlType.Line]: GuiMultiLine;
+	[ControlType.Button]: GuiButton;
+	[ControlType.Image]: GuiImage;
+}
+
+/** Filled in with the built control once the canvas is created, and emptied again when it is disposed */
+export interface Ref<C extends GuiControl = GuiControl> {
+	current: null | C;
+}
+
+/** Either a fixed value or a function that is read again on every `Canvas.update()` */
+export type Reactive<V> = V | (() => V);
+
+/** Properties of a GUI control that can be set declaratively, methods excluded */
+export type ControlProps<C extends GuiControl> = {
+	[K in keyof C as C[K] extends Function ? never : K]?: Reactive<C[K]>;
+};
+
+/** Where a line passes through: a mesh, another control or a point in pixels or percent */
+export type LinePoint = AbstractMesh | Ref | { x: number | string, y: number | string };
+
 module Base {
-	export interface Control {
+	export interface Control<C extends GuiControl> {
 		readonly type: ControlType;
 		
+		/** Name of the built control, shows up in the inspector */
 		readonly label?: string;
-		readonly children?: Control[];
-		readonly ref?: any;
+		readonly children?: Control<GuiControl>[];
+		readonly ref?: Ref<C>;
+		/** Keeps the control next to a mesh on screen. Babylon.js only supports this for top level controls. */
+		readonly link?: AbstractMesh;
+		readonly props?: ControlProps<C>;
 	}
 }
 
-export type Control<T> = Container<T> | Rectangle<T> | Text<T> | Line<T>;
+export type Control = Container | Rectangle | Text | Line | Button | Image;
 
-export interface Container<T> extends Base.Control {
+export interface Container extends Base.Control<GuiContainer> {
 	readonly type: ControlType.Container;
+	readonly children?: Control[];
 }
 
-export interface Rectangle<T> extends Base.Control {
+export interface Rectangle extends Base.Control<GuiRectangle> {
 	readonly type: ControlType.Rectangle;
+	readonly children?: Control[];
 }
 
-export interface Text<T> extends Base.Control {
+export interface Text extends Base.Control<GuiTextBlock> {
 	readonly type: ControlType.Text;
+	readonly children?: never;
 }
 
-export interface Line<T> extends Base.Control {
+export interface Line extends Base.Control<GuiMultiLine> {
 	readonly type: ControlType.Line;
-	readonly points: any[];
+	readonly children?: never;
+	readonly points: LinePoint[];
+}
+
+export interface Button extends Base.Control<GuiButton> {
+	readonly type: ControlType.Button;
+	readonly children?: Control[];
+	/** Text of a simple button, omit it to fill the button with `children` instead */
+	readonly text?: string;
+	readonly onClick?: () => void;
+}
+
+export interface Image extends Base.Control<GuiImage> {
+	readonly type: ControlType.Image;
+	readonly children?: never;
+	readonly url: string;
 }
 
 export type WhichControl<T> = (
 	T extends { type: infer E } ? (
-		E extends ControlType.Container ? Container<T> :
-		E extends ControlType.Rectangle ? Rectangle<T> :
-		E extends ControlType.Text ? Text<T> :
-		E extends ControlType.Line ? Line<T> :
-		Control<T>
-	) : Control<T>
+		E extends ControlType.Container ? Container :
+		E extends ControlType.Rectangle ? Rectangle :
+		E extends ControlType.Text ? Text :
+		E extends ControlType.Line ? Line :
+		E extends ControlType.Button ? Button :
+		E extends ControlType.Image ? Image :
+		Control
+	) : Control
 );
@@ -0,0 +1,113 @@
+import { createSeededRandom } from './Random';
+
+export type Noise3D = (x: number, y: number, z: number) => number;
+
+export interface FractalNoiseOptions {
+	/** Number of noise layers summed up, defaults to 5 */
+	octaves?: number;
+	/** Frequency multiplier per octave, defaults to 2 */
+	lacunarity?: number;
+	/** Amplitude multiplier per octave, defaults to 0.5 */
+	gain?: number;
+}
+
+const grad3 = [
+	[1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+	[1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+	[0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+];
+
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+/**
+ * Seeded 3D simplex noise returning values in roughly [-1, 1]. The same seed always yields the same noise field.
+ */
+export function createNoise3D(seed: number): Noise3D {
+	
+	// Shuffle the permutation table with the seeded generator rather than Math.random so output is reproducible
+	const random = createSeededRandom(seed);
+	const p = Array.from({ length: 256 }, (_, i) => i);
+	for (let i = 255; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1));
+		[p[i], p[j]] = [p[j], p[i]];
+	}
+	
+	const perm = new Uint8Array(512);
+	const permMod12 = new Uint8Array(512);
+	for (let i = 0; i < 512; i++) {
+		perm[i] = p[i & 255];
+		permMod12[i] = perm[i] % 12;
+	}
+	
+	const corner = (gi: number, x: number, y: number, z: number) => {
+		const t = 0.6 - (x * x) - (y * y) - (z * z);
+		if (t < 0) {
+			return 0;
+		}
+		
+		const g = grad3[gi];
+		return t * t * t * t * ((g[0] * x) + (g[1] * y) + (g[2] * z));
+	};
+	
+	return (x, y, z) => {
+		
+		// Skew the input space to find the simplex cell
+		const s = (x + y + z) * F3;
+		const i = Math.floor(x + s);
+		const j = Math.floor(y + s);
+		const k = Math.floor(z + s);
+		const t = (i + j + k) * G3;
+		const x0 = x - (i - t);
+		const y0 = y - (j - t);
+		const z0 = z - (k - t);
+		
+		// Find out which of the six tetrahedra the point is in
+		let i1, j1, k1, i2, j2, k2;
+		if (x0 >= y0) {
+			if (y0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+			else if (x0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 0; k2 = 1; }
+			else { i1 = 0; j1 = 0; k1 = 1; i2 = 1; j2 = 0; k2 = 1; }
+		}
+		else {
+			if (y0 < z0) { i1 = 0; j1 = 0; k1 = 1; i2 = 0; j2 = 1; k2 = 1; }
+			else if (x0 < z0) { i1 = 0; j1 = 1; k1 = 0; i2 = 0; j2 = 1; k2 = 1; }
+			else { i1 = 0; j1 = 1; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+		}
+		
+		const ii = i & 255;
+		const jj = j & 255;
+		const kk = k & 255;
+		
+		const n0 = corner(permMod12[ii + perm[jj + perm[kk]]], x0, y0, z0);
+		const n1 = corner(permMod12[ii + i1 + perm[jj + j1 + perm[kk + k1]]], x0 - i1 + G3, y0 - j1 + G3, z0 - k1 + G3);
+		const n2 = corner(permMod12[ii + i2 + perm[jj + j2 + perm[kk + k2]]], x0 - i2 + (2 * G3), y0 - j2 + (2 * G3), z0 - k2 + (2 * G3));
+		const n3 = corner(permMod12[ii + 1 + perm[jj + 1 + perm[kk + 1]]], x0 - 1 + (3 * G3), y0 - 1 + (3 * G3), z0 - 1 + (3 * G3));
+		
+		// Scale the result to stay within [-1, 1]
+		return 32 * (n0 + n1 + n2 + n3);
+	};
+}
+
+/**
+ * Sums several octaves of noise (fractal Brownian motion). The result is normalized to roughly [-1, 1].
+ */
+export function fractalNoise(noise: Noise3D, x: number, y: number, z: number, options: FractalNoiseOptions = {}) {
+	const octaves = options.octaves ?? 5;
+	const lacunarity = options.lacunarity ?? 2;
+	const gain = options.gain ?? 0.5;
+	
+	let sum = 0;
+	let amplitude = 1;
+	let frequency = 1;
+	let amplitudeSum = 0;
+	
+	for (let i = 0; i < octaves; i++) {
+		sum += noise(x * frequency, y * frequency, z * frequency) * amplitude;
+		amplitudeSum += amplitude;
+		amplitude *= gain;
+		frequency *= lacunarity;
+	}
+	
+	return sum / amplitudeSum;
+}
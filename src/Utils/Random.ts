@@ -0,0 +1,21 @@
+/**
+ * Deterministic pseudo random number generator (mulberry32). Returns a function yielding numbers in [0, 1).
+ */
+export function createSeededRandom(seed: number) {
+	let state = seed >>> 0;
+	
+	return () => {
+		state = (state + 0x6D2B79F5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Random number between min and max using the given generator
+ */
+export function randomRange(random: () => number, min: number, max: number) {
+	return min + (random() * (max - min));
+}
@@ -0,0 +1,88 @@
+import { Vector3Tuple } from './SolarSystem/Definition';
+
+/**
+ * Everything needed to reproduce what the main camera is looking at
+ */
+export interface ViewState {
+	/** Inspector name of the focused body */
+	body?: string;
+	alpha: number;
+	beta: number;
+	/** Also determines the galaxy scale, which is derived from the camera distance */
+	radius: number;
+	/** Simulation time in seconds */
+	time: number;
+	/** Pivot of the galaxy scaling. Only needed while zoomed out, otherwise it follows the focused body. */
+	pivot?: Vector3Tuple;
+}
+
+const decimals = 3;
+
+/**
+ * Serializes a view state into a compact query string such as `body=planet4&a=-1.571&b=1.571&r=5&t=42.5`, suitable for
+ * a URL hash
+ */
+export function serializeViewState(state: ViewState) {
+	const params = new URLSearchParams();
+	
+	state.body !== undefined && params.set('body', state.body);
+	params.set('a', round(state.alpha));
+	params.set('b', round(state.beta));
+	params.set('r', round(state.radius));
+	params.set('t', round(state.time));
+	state.pivot && params.set('p', state.pivot.map(round).join(','));
+	
+	return params.toString();
+}
+
+/**
+ * Parses the output of `serializeViewState` (with or without a leading `#`). Values that are missing or malformed are
+ * left out so the caller can keep its current state for them.
+ */
+export function parseViewState(value: string): Partial<ViewState> {
+	const params = new URLSearchParams(value.replace(/^#/, ''));
+	const state: Partial<ViewState> = {};
+	
+	const body = params.get('body');
+	if (body) {
+		state.body = body;
+	}
+	
+	const alpha = parseNumber(params.get('a'));
+	const beta = parseNumber(params.get('b'));
+	const radius = parseNumber(params.get('r'));
+	const time = parseNumber(params.get('t'));
+	
+	if (alpha !== null) {
+		state.alpha = alpha;
+	}
+	if (beta !== null) {
+		state.beta = beta;
+	}
+	if (radius !== null && radius > 0) {
+		state.radius = radius;
+	}
+	if (time !== null) {
+		state.time = time;
+	}
+	
+	const pivot = (params.get('p') ?? '').split(',').map(parseNumber);
+	if (pivot.length === 3 && pivot.every(component => component !== null)) {
+		state.pivot = pivot as Vector3Tuple;
+	}
+	
+	return state;
+}
+
+function round(value: number) {
+	return String(parseFloat(value.toFixed(decimals)));
+}
+
+function parseNumber(value: null | string) {
+	if (value === null || value.trim() === '') {
+		return null;
+	}
+	
+	const num = Number(value);
+	return isFinite(num) ? num : null;
+}
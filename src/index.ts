@@ -1,5 +1,8 @@
-import { Renderer } from './Renderer';
-import { Vector3 } from '@babylonjs/core/Maths';
+import { OptimizationPolicyName, optimizationPolicies } from './Optimization/Policies';
+import { getStarSystemDefinition } from './Procedural/DefaultGalaxy';
+import { Renderer, SolarSystemSource } from './Renderer';
+import { defaultTourDefinition } from './Tour/DefaultTour';
+import { ViewState } from './ViewState';
 
 const canvasContainer = document.getElementById('container');
 const canvas = document.getElementById('canvas') as HTMLCanvasElement ?? document.createElement('canvas');
@@ -12,18 +15,63 @@ if (document.getElementById('canvas') === null) {
     canvasContainer?.append(canvas);
 }
 
-const renderer = new Renderer(canvas);
+// Other star systems of the galaxy can be linked with ?system=<id>, 0 being the default solar system
+function getInitialSolarSystem(): undefined | SolarSystemSource {
+    const systemParam = new URLSearchParams(window.location.search).get('system');
+    
+    if (systemParam === null) {
+        return undefined;
+    }
+    
+    try {
+        return getStarSystemDefinition(parseInt(systemParam, 10));
+    }
+    catch (e) {
+        console.error('Unable to load star system', e);
+        return undefined;
+    }
+}
 
-interface HmrData {
-    defaultCamera?: {
-        target: Vector3;
-        alpha: number;
-        beta: number;
-        radius: number;
-    };
-    solarSystemTransformNode?: {
-        pivot: Vector3;
+// Kiosks and workstations pick their optimization policy with ?optimizer=kiosk or ?optimizer=workstation
+const optimizerParam = new URLSearchParams(window.location.search).get('optimizer');
+
+function createRenderer(solarSystem?: SolarSystemSource) {
+    const newRenderer = new Renderer(canvas, solarSystem);
+    
+    if (optimizerParam !== null) {
+        if (Object.prototype.hasOwnProperty.call(optimizationPolicies, optimizerParam)) {
+            newRenderer.setOptimizationPolicy(optimizerParam as OptimizationPolicyName);
+        }
+        else {
+            console.warn(`Unknown optimization policy "${optimizerParam}"`);
+        }
     }
+    
+    // A renderer shows a single solar system, so visiting another star system swaps in a fresh one. Deferred so the
+    // old renderer is not disposed from within its own pointer handler.
+    newRenderer.events.on('starSystemSelected', ({ system, definition }) => setImmediate(() => {
+        const url = new URL(window.location.href);
+        url.searchParams.set('system', String(system.id));
+        url.hash = '';
+        window.history.replaceState(null, '', url.toString());
+        
+        renderer.dispose();
+        renderer = createRenderer(definition);
+    }));
+    
+    return newRenderer;
+}
+
+let renderer = createRenderer(getInitialSolarSystem());
+
+// Lobby screens can start the unattended tour with ?tour, or a custom one with ?tour=<url to JSON>
+const tourParam = new URLSearchParams(window.location.search).get('tour');
+if (tourParam !== null) {
+    renderer.playTour(tourParam || defaultTourDefinition).catch(e => console.error('Unable to play tour', e));
+}
+
+interface HmrData {
+    viewState?: ViewState;
 }
 
 interface HotProps<T> {
@@ -46,23 +94,13 @@ if (process.env.NODE_ENV === 'development') {
     if (module.hot) {
         module.hot.dispose(dataRef => {
             
-            // Snapshot data for whatever you want to retain before HMR unload
-            const { defaultCamera, solarSystemTransformNode } = renderer;
-            
-            dataRef.defaultCamera = !defaultCamera ? undefined : {
-                target: defaultCamera.target,
-                alpha: defaultCamera.alpha,
-                beta: defaultCamera.beta,
-                radius: defaultCamera.radius,
-            };
-            
-            dataRef.solarSystemTransformNode = !solarSystemTransformNode ? undefined : {
-                pivot: solarSystemTransformNode.getPivotPoint(),
-            };
+            // Snapshot data for whatever you want to retain before HMR unload. The URL hash lags behind the view a little so
+            // take an exact copy.
+            dataRef.viewState = renderer.getViewState() ?? undefined;
             
-            // Cleanly dispose of the engine instance
-            console.log('Unloading existing Babylon.js engine instance before creating new instance');
-            renderer.engine.dispose();
+            // Cleanly dispose of the renderer, including its engine instance and DOM listeners
+            console.log('Unloading existing renderer before creating new instance');
+            renderer.dispose();
         });
         
         module.hot.accept(() => {
@@ -70,20 +108,13 @@ if (process.env.NODE_ENV === 'development') {
             // Extract data that was saved to dataRef within module.hot.dispose
             const data = module.hot.data;
             
-            // Restore camera
-            const { defaultCamera, solarSystemTransformNode } = renderer;
-            if (data.defaultCamera && defaultCamera !== null){
-                console.log('Restoring camera to previous position');
-                defaultCamera.target = data.defaultCamera.target;
-                defaultCamera.alpha = data.defaultCamera.alpha;
-                defaultCamera.beta = data.defaultCamera.beta;
-                defaultCamera.radius = data.defaultCamera.radius;
-            }
-            
-            // Restore solar system pivot point
-            if (data.solarSystemTransformNode && solarSystemTransformNode !== null) {
-                console.log('Restoring solar system transform node pivot point');
-                solarSystemTransformNode.setPivotPoint(data.solarSystemTransformNode.pivot);
+            // Restore camera, focused body, simulation time and galaxy pivot point
+            const { viewState } = data;
+            if (viewState) {
+                renderer.ready.then(() => {
+                    console.log('Restoring previous view');
+                    renderer.applyViewState(viewState);
+                });
             }
             
         });